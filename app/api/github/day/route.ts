@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { snapshotResponse } from "@/lib/activity-snapshot";
+import { getFetchAdapter } from "@/lib/fetch-adapter";
+import {
+  createGitHubClient,
+  DEFAULT_GITHUB_USERNAME,
+  parseContributionDay,
+} from "@/lib/github";
+import {
+  errorResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { cached } from "@/lib/response-cache";
+
+export async function GET(request: Request) {
+  const token = process.env.GITHUB_TOKEN;
+  const username = process.env.GITHUB_USERNAME || DEFAULT_GITHUB_USERNAME;
+
+  if (!token) {
+    return (
+      (await snapshotResponse(request)) ??
+      errorResponse(
+        new ProviderError("not_configured", "GitHub token not configured"),
+      )
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = parseContributionDay(searchParams);
+
+    const github = createGitHubClient({ token, fetch: getFetchAdapter() });
+    const day = await cached(`github:day:${username}:${date}`, () =>
+      github.getContributionDay(username, date),
+    );
+
+    return NextResponse.json(day);
+  } catch (error) {
+    console.error("GitHub API error:", error);
+    return errorResponse(toProviderError("GitHub", error));
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { snapshotResponse } from "@/lib/activity-snapshot";
+import { getFetchAdapter } from "@/lib/fetch-adapter";
+import { createGitHubClient, DEFAULT_GITHUB_USERNAME } from "@/lib/github";
+import {
+  errorResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { cached } from "@/lib/response-cache";
+
+export async function GET(request: Request) {
+  const token = process.env.GITHUB_TOKEN;
+  const username = process.env.GITHUB_USERNAME || DEFAULT_GITHUB_USERNAME;
+
+  if (!token) {
+    return (
+      (await snapshotResponse(request)) ??
+      errorResponse(
+        new ProviderError("not_configured", "GitHub token not configured"),
+      )
+    );
+  }
+
+  try {
+    const github = createGitHubClient({ token, fetch: getFetchAdapter() });
+    const repositories = await cached(`github:repos:${username}`, () =>
+      github.getRepositories(username),
+    );
+
+    return NextResponse.json(repositories);
+  } catch (error) {
+    console.error("GitHub API error:", error);
+    return errorResponse(toProviderError("GitHub", error));
+  }
+}
@@ -1,71 +1,52 @@
 import { NextResponse } from "next/server";
-
-const GITHUB_GRAPHQL_URL = "https://api.github.com/graphql";
-const GITHUB_USERNAME = "Shyamsaitejamandibi";
-
-const query = `
-  query($username: String!) {
-    user(login: $username) {
-      contributionsCollection {
-        contributionCalendar {
-          totalContributions
-          weeks {
-            contributionDays {
-              contributionCount
-              date
-              color
-              weekday
-            }
-          }
-        }
-      }
-    }
-  }
-`;
-
-export async function GET() {
+import { snapshotResponse } from "@/lib/activity-snapshot";
+import { getFetchAdapter } from "@/lib/fetch-adapter";
+import {
+  createGitHubClient,
+  DEFAULT_GITHUB_USERNAME,
+  parseContributionRange,
+} from "@/lib/github";
+import {
+  errorResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { cached } from "@/lib/response-cache";
+
+export async function GET(request: Request) {
   const token = process.env.GITHUB_TOKEN;
+  const username = process.env.GITHUB_USERNAME || DEFAULT_GITHUB_USERNAME;
 
   if (!token) {
-    return NextResponse.json(
-      { error: "GitHub token not configured" },
-      { status: 500 },
+    return (
+      (await snapshotResponse(request)) ??
+      errorResponse(
+        new ProviderError("not_configured", "GitHub token not configured"),
+      )
     );
   }
 
   try {
-    const response = await fetch(GITHUB_GRAPHQL_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        query,
-        variables: { username: GITHUB_USERNAME },
-      }),
-      next: { revalidate: 3600 }, // Cache for 1 hour
-    });
-
-    if (!response.ok) {
-      throw new Error(`GitHub API responded with ${response.status}`);
+    const { searchParams } = new URL(request.url);
+    const github = createGitHubClient({ token, fetch: getFetchAdapter() });
+
+    if (searchParams.get("view") === "lifetime") {
+      return NextResponse.json(
+        await cached(`github:lifetime:${username}`, () =>
+          github.getLifetimeSummary(username),
+        ),
+      );
     }
 
-    const data = await response.json();
-
-    if (data.errors) {
-      throw new Error(data.errors[0].message);
-    }
-
-    const calendar =
-      data.data.user.contributionsCollection.contributionCalendar;
+    const range = parseContributionRange(searchParams);
+    const calendar = await cached(
+      `github:calendar:${username}:${range.from ?? ""}:${range.to ?? ""}`,
+      () => github.getContributionCalendar(username, range),
+    );
 
     return NextResponse.json(calendar);
   } catch (error) {
     console.error("GitHub API error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch GitHub data" },
-      { status: 500 },
-    );
+    return errorResponse(toProviderError("GitHub", error));
   }
 }
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { snapshotResponse } from "@/lib/activity-snapshot";
+import { getFetchAdapter } from "@/lib/fetch-adapter";
+import {
+  createHackatimeClient,
+  parseHackatimeRange,
+  parseTimeZone,
+} from "@/lib/hackatime";
+import {
+  errorResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { cached } from "@/lib/response-cache";
+
+export async function GET(request: Request) {
+  const username = process.env.HACKATIME_USERNAME;
+  const apiKey = process.env.HACKATIME_API_KEY;
+
+  if (!username) {
+    return (
+      (await snapshotResponse(request)) ??
+      errorResponse(
+        new ProviderError(
+          "not_configured",
+          "Hackatime username not configured",
+        ),
+      )
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeZone = parseTimeZone(searchParams, process.env.ACTIVITY_TIMEZONE);
+    // Ten years of heartbeat spans is far too much for one request, so an
+    // unqualified call covers the past year like the heatmap does
+    const range = parseHackatimeRange(
+      searchParams,
+      process.env.ACTIVITY_TIMEZONE,
+      "last_year",
+    );
+
+    const hackatime = createHackatimeClient({
+      username,
+      apiKey,
+      fetch: getFetchAdapter(),
+    });
+    const daily = await cached(
+      `hackatime:daily:${username}:${range.start_date}:${range.end_date}:${timeZone}`,
+      () => hackatime.getDailyDurations(range, timeZone),
+    );
+
+    return NextResponse.json(daily);
+  } catch (error) {
+    console.error("Hackatime API error:", error);
+    return errorResponse(toProviderError("Hackatime", error));
+  }
+}
@@ -1,79 +1,50 @@
 import { NextResponse } from "next/server";
-
-const HACKATIME_BASE_URL = "https://hackatime.hackclub.com/api/v1";
-
-function getDateRange(range: string): { start_date: string; end_date: string } {
-  const end = new Date();
-  const start = new Date();
-
-  switch (range) {
-    case "last_7_days":
-      start.setDate(end.getDate() - 7);
-      break;
-    case "last_30_days":
-      start.setDate(end.getDate() - 30);
-      break;
-    case "last_6_months":
-      start.setMonth(end.getMonth() - 6);
-      break;
-    case "last_year":
-      start.setFullYear(end.getFullYear() - 1);
-      break;
-    case "all_time":
-    default:
-      // 10 years back
-      start.setFullYear(end.getFullYear() - 10);
-      break;
-  }
-
-  const fmt = (d: Date) => d.toISOString().split("T")[0]; // YYYY-MM-DD
-  return { start_date: fmt(start), end_date: fmt(end) };
-}
+import { snapshotResponse } from "@/lib/activity-snapshot";
+import { getFetchAdapter } from "@/lib/fetch-adapter";
+import { createHackatimeClient, parseHackatimeRange } from "@/lib/hackatime";
+import {
+  errorResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { cached } from "@/lib/response-cache";
 
 export async function GET(request: Request) {
   const username = process.env.HACKATIME_USERNAME;
   const apiKey = process.env.HACKATIME_API_KEY;
 
   if (!username) {
-    return NextResponse.json(
-      { error: "Hackatime username not configured" },
-      { status: 500 },
+    return (
+      (await snapshotResponse(request)) ??
+      errorResponse(
+        new ProviderError(
+          "not_configured",
+          "Hackatime username not configured",
+        ),
+      )
     );
   }
 
-  const { searchParams } = new URL(request.url);
-  const range = searchParams.get("range") || "all_time";
-  const { start_date, end_date } = getDateRange(range);
-
   try {
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-
-    if (apiKey) {
-      headers["Authorization"] = `Bearer ${apiKey}`;
-    }
-
-    const url = `${HACKATIME_BASE_URL}/users/${username}/stats?start_date=${start_date}&end_date=${end_date}`;
+    const { searchParams } = new URL(request.url);
+    const range = parseHackatimeRange(
+      searchParams,
+      process.env.ACTIVITY_TIMEZONE,
+    );
 
-    const response = await fetch(url, {
-      headers,
-      next: { revalidate: 3600 },
+    const hackatime = createHackatimeClient({
+      username,
+      apiKey,
+      fetch: getFetchAdapter(),
     });
-
-    if (!response.ok) {
-      throw new Error(`Hackatime API responded with ${response.status}`);
-    }
-
-    const responseData = await response.json();
-    const stats = responseData.data || responseData;
+    const stats = await cached(
+      `hackatime:stats:${username}:${range.start_date}:${range.end_date}`,
+      () => hackatime.getStats(range),
+    );
 
     return NextResponse.json(stats);
   } catch (error) {
     console.error("Hackatime API error:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch Hackatime data" },
-      { status: 500 },
-    );
+    return errorResponse(toProviderError("Hackatime", error));
   }
 }
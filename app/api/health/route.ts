@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import type { HealthData, ProviderHealth } from "@/lib/activity-types";
+import { getHealthState } from "@/lib/provider-health";
+import { getQuota } from "@/lib/rate-limit";
+import { getCacheAge } from "@/lib/response-cache";
+
+// Every configured provider is required unless ACTIVITY_REQUIRED_INTEGRATIONS
+// names them explicitly (e.g. "github" or "github,hackatime").
+function isRequired(key: string, configured: boolean): boolean {
+  const required = process.env.ACTIVITY_REQUIRED_INTEGRATIONS;
+  if (!required) return configured;
+  return required
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .includes(key);
+}
+
+// Upstream error messages are passed through, minus anything secret.
+function redact(message: string): string {
+  let text = message;
+  for (const secret of [
+    process.env.GITHUB_TOKEN,
+    process.env.HACKATIME_API_KEY,
+  ]) {
+    if (secret) text = text.split(secret).join("[redacted]");
+  }
+  return text;
+}
+
+function getProviderHealth(
+  provider: string,
+  key: string,
+  configured: boolean,
+): ProviderHealth {
+  const { lastSuccessAt, lastError, latencyMs } = getHealthState(provider);
+  const quota = getQuota(provider);
+  const failing =
+    lastError !== null && lastError.at > (lastSuccessAt ?? -Infinity);
+
+  let status: ProviderHealth["status"] = "unknown";
+  if (!configured) status = "not_configured";
+  else if (failing) {
+    status = lastError.code === "rate_limited" ? "degraded" : "down";
+  } else if (quota.exhausted) status = "degraded";
+  else if (lastSuccessAt !== null) status = "ok";
+
+  return {
+    status,
+    configured,
+    required: isRequired(key, configured),
+    lastSuccessAt: lastSuccessAt ? new Date(lastSuccessAt).toISOString() : null,
+    lastError: lastError
+      ? {
+          code: lastError.code,
+          message: redact(lastError.message),
+          at: new Date(lastError.at).toISOString(),
+        }
+      : null,
+    latencyMs,
+    cacheAge: getCacheAge(key),
+    quota,
+  };
+}
+
+// Reports what this server has seen of each provider. It never calls the
+// upstreams itself, so polling it costs no quota.
+export async function GET() {
+  const providers: HealthData["providers"] = {
+    github: getProviderHealth(
+      "GitHub",
+      "github",
+      Boolean(process.env.GITHUB_TOKEN),
+    ),
+    hackatime: getProviderHealth(
+      "Hackatime",
+      "hackatime",
+      Boolean(process.env.HACKATIME_USERNAME),
+    ),
+  };
+
+  const entries = Object.values(providers);
+  const down = entries.some(
+    (provider) =>
+      provider.required &&
+      (provider.status === "down" || provider.status === "not_configured"),
+  );
+  const degraded = entries.some(
+    (provider) =>
+      provider.configured &&
+      (provider.status === "down" || provider.status === "degraded"),
+  );
+
+  const health: HealthData = {
+    status: down ? "down" : degraded ? "degraded" : "ok",
+    checkedAt: new Date().toISOString(),
+    providers,
+  };
+
+  return NextResponse.json(health, {
+    status: down ? 503 : 200,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
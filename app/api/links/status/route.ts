@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { checkLinks, collectContentLinks } from "@/lib/link-health";
+import { errorResponse, toProviderError } from "@/lib/provider-error";
+import { cached } from "@/lib/response-cache";
+
+// Checks every project and contact URL. Results are cached like the activity
+// routes, so at most one round of checks runs per hour.
+export async function GET() {
+  try {
+    const report = await cached("links:status", () =>
+      checkLinks(collectContentLinks()),
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Link check error:", error);
+    return errorResponse(toProviderError("Link check", error));
+  }
+}
@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { ProjectCaseStudy } from "@/components/project-case-study";
+import { validateProjects } from "@/lib/project-schemas";
+import { getProject, projects } from "@/lib/projects";
+
+interface ProjectPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Every case study is rendered at build time; unknown slugs are a 404.
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return validateProjects(projects).map((project) => ({ slug: project.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: ProjectPageProps): Promise<Metadata> {
+  const project = getProject((await params).slug);
+  if (!project) return {};
+
+  return {
+    title: `${project.title} | Shyam Sai Teja`,
+    description: project.description,
+    openGraph: project.cover
+      ? { images: [{ url: project.cover.src, alt: project.cover.alt }] }
+      : undefined,
+  };
+}
+
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const project = getProject((await params).slug);
+  if (!project) notFound();
+
+  return <ProjectCaseStudy project={project} />;
+}
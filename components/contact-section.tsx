@@ -3,6 +3,7 @@
 import { motion, Variants } from "framer-motion";
 import { Copy, ExternalLink } from "lucide-react";
 import { useState } from "react";
+import { CONTACT_LINKS } from "@/lib/contact-links";
 
 export function ContactSection() {
   const [emailCopied, setEmailCopied] = useState(false);
@@ -115,7 +116,7 @@ export function ContactSection() {
                   LinkedIn
                 </span>
                 <a
-                  href="https://www.linkedin.com/in/shyam-sai-teja-235054253"
+                  href={CONTACT_LINKS.linkedin}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="contact-text text-foreground hover:text-foreground/80 transition-colors duration-300 flex items-center gap-2"
@@ -135,7 +136,7 @@ export function ContactSection() {
               <div className="flex items-center justify-between">
                 <span className="contact-label text-foreground/60">GitHub</span>
                 <a
-                  href="https://github.com/Shyamsaitejamandibi"
+                  href={CONTACT_LINKS.github}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="contact-text text-foreground hover:text-foreground/80 transition-colors duration-300 flex items-center gap-2"
@@ -155,7 +156,7 @@ export function ContactSection() {
                   Peerlist
                 </span>
                 <a
-                  href="https://peerlist.io/shyamsaiteja"
+                  href={CONTACT_LINKS.peerlist}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="contact-text text-foreground hover:text-foreground/80 transition-colors duration-300 flex items-center gap-2"
@@ -0,0 +1,392 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { formatDate } from "@/lib/format";
+import {
+  createLevelScale,
+  getMonthLabels,
+  groupIntoWeeks,
+  type HeatmapDatum,
+  type LevelScaleMode,
+  summarizeByMonth,
+} from "@/lib/heatmap";
+
+export interface HeatmapSeries {
+  label: string;
+  data: HeatmapDatum[]; // consecutive days, oldest first
+  colors: string[]; // one per level, empty first
+  formatValue: (value: number) => string; // e.g. "5 contributions"
+  formatShort: (value: number) => string; // legend ranges, e.g. "5"
+}
+
+interface ContributionHeatmapProps {
+  // Fills the cells and sets the grid's date range
+  series: HeatmapSeries;
+  // Drawn as a dot on top of each cell, sized by its own level
+  overlay?: HeatmapSeries;
+  scaleMode?: LevelScaleMode;
+  // Dims every cell outside this inclusive date range, e.g. a streak
+  highlight?: { start: string; end: string } | null;
+  // Makes cells selectable (click, Enter or Space), e.g. to open a day's detail
+  selectedDate?: string | null;
+  onSelectDate?: (date: string) => void;
+}
+
+const CELL_SIZE = 12;
+const CELL_GAP = 2;
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Overlay days are one-colour dots inside the cell, growing with their level
+function OverlayDot({ color, level }: { color: string; level: number }) {
+  return (
+    <span
+      className="rounded-full pointer-events-none"
+      style={{
+        width: `${1 + level * 2}px`,
+        height: `${1 + level * 2}px`,
+        backgroundColor: color,
+      }}
+    />
+  );
+}
+
+export function ContributionHeatmap({
+  series,
+  overlay,
+  scaleMode = "quantile",
+  highlight = null,
+  selectedDate = null,
+  onSelectDate,
+}: ContributionHeatmapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [tooltip, setTooltip] = useState<{
+    text: string;
+    x: number;
+    y: number;
+  } | null>(null);
+
+  const values = new Map(series.data.map((d) => [d.date, d.value]));
+  const overlayValues = new Map(overlay?.data.map((d) => [d.date, d.value]));
+
+  const seriesScale = createLevelScale(
+    series.data.map((d) => d.value),
+    scaleMode,
+    series.colors.length - 1,
+  );
+  const overlayScale = overlay
+    ? createLevelScale(
+        overlay.data.map((d) => d.value),
+        scaleMode,
+        overlay.colors.length - 1,
+      )
+    : null;
+
+  const weeks = groupIntoWeeks(series.data.map((d) => d.date));
+  const monthLabels = getMonthLabels(weeks);
+  const monthSummary = summarizeByMonth(series.data);
+  const overlaySummary = overlay ? summarizeByMonth(overlay.data) : [];
+
+  // Roving tabindex: only one cell is tabbable, arrows move it around
+  const cellRefs = useRef(new Map<string, HTMLDivElement>());
+  const [focusedDate, setFocusedDate] = useState<string | null>(null);
+  const lastDate = series.data[series.data.length - 1]?.date ?? null;
+  const activeDate =
+    focusedDate && values.has(focusedDate) ? focusedDate : lastDate;
+
+  const describeDay = (date: string) => {
+    const parts = [series.formatValue(values.get(date) ?? 0)];
+    if (overlay) parts.push(overlay.formatValue(overlayValues.get(date) ?? 0));
+    return `${parts.join(" · ")} on ${formatDate(date)}`;
+  };
+
+  const showTooltip = useCallback((text: string, cell: HTMLElement) => {
+    const container = containerRef.current!;
+    const rect = cell.getBoundingClientRect();
+    const parentRect = container.getBoundingClientRect();
+    setTooltip({
+      text,
+      x: rect.left - parentRect.left + container.scrollLeft + rect.width / 2,
+      y: rect.top - parentRect.top - 8,
+    });
+  }, []);
+
+  const hideTooltip = useCallback(() => setTooltip(null), []);
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (!activeDate) return;
+    const weekday = new Date(activeDate + "T00:00:00").getDay();
+    const col = weeks.findIndex((week) => week[weekday] === activeDate);
+
+    let target: string | null | undefined;
+    switch (e.key) {
+      case "ArrowLeft":
+        target = weeks[col - 1]?.[weekday];
+        break;
+      case "ArrowRight":
+        target = weeks[col + 1]?.[weekday];
+        break;
+      case "ArrowUp":
+        target = weeks[col][weekday - 1];
+        break;
+      case "ArrowDown":
+        target = weeks[col][weekday + 1];
+        break;
+      case "Home":
+        target = weeks.find((week) => week[weekday])?.[weekday];
+        break;
+      case "End":
+        target = weeks.findLast((week) => week[weekday])?.[weekday];
+        break;
+      case "Enter":
+      case " ":
+        if (!onSelectDate) return;
+        e.preventDefault();
+        onSelectDate(activeDate);
+        return;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (!target) return;
+    setFocusedDate(target);
+    cellRefs.current.get(target)?.focus();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative overflow-x-auto pb-4 custom-scrollbar"
+    >
+      {/* Tooltip */}
+      {tooltip && (
+        <div
+          aria-hidden
+          className="absolute pointer-events-none z-20 px-3 py-1.5 rounded-md text-xs font-medium whitespace-nowrap"
+          style={{
+            left: tooltip.x,
+            top: tooltip.y,
+            transform: "translate(-50%, -100%)",
+            backgroundColor: "rgba(30, 30, 32, 0.95)",
+            border: "1px solid rgba(255,255,255,0.1)",
+            color: "rgba(255,255,255,0.85)",
+            boxShadow: "0 4px 12px rgba(0,0,0,0.4)",
+          }}
+        >
+          {tooltip.text}
+        </div>
+      )}
+
+      {/* Month labels */}
+      <div aria-hidden className="flex mb-2 ml-[28px]" style={{ gap: 0 }}>
+        {monthLabels.map((m, i) => {
+          const nextCol =
+            i < monthLabels.length - 1 ? monthLabels[i + 1].col : weeks.length;
+          const span = nextCol - m.col;
+          return (
+            <span
+              key={`${m.label}-${m.col}`}
+              className="meta-text text-foreground/30 text-[10px]"
+              style={{
+                width: `${span * (CELL_SIZE + CELL_GAP)}px`,
+                flexShrink: 0,
+              }}
+            >
+              {m.label}
+            </span>
+          );
+        })}
+      </div>
+
+      {/* Grid — one row per weekday, one column per week */}
+      <div
+        role="grid"
+        aria-label={`${series.label} per day`}
+        aria-colcount={weeks.length + 1}
+        className="flex flex-col"
+        style={{ gap: `${CELL_GAP}px` }}
+        onKeyDown={handleGridKeyDown}
+      >
+        {WEEKDAYS.map((weekdayName, weekday) => (
+          <div
+            key={weekdayName}
+            role="row"
+            className="flex"
+            style={{ gap: `${CELL_GAP}px` }}
+          >
+            <div
+              role="rowheader"
+              aria-label={weekdayName}
+              aria-colindex={1}
+              className="meta-text text-foreground/30 text-[10px] leading-[12px] h-[12px] w-[26px] shrink-0 flex items-center"
+            >
+              {weekday % 2 === 1 ? weekdayName.slice(0, 3) : ""}
+            </div>
+            {weeks.map((week, wi) => {
+              const date = week[weekday];
+              if (!date) {
+                return (
+                  <div
+                    key={wi}
+                    role="presentation"
+                    className="shrink-0"
+                    style={{
+                      width: `${CELL_SIZE}px`,
+                      height: `${CELL_SIZE}px`,
+                    }}
+                  />
+                );
+              }
+
+              const overlayLevel = overlayScale
+                ? overlayScale.getLevel(overlayValues.get(date) ?? 0)
+                : 0;
+              return (
+                <div
+                  key={date}
+                  ref={(el) => {
+                    if (el) cellRefs.current.set(date, el);
+                    else cellRefs.current.delete(date);
+                  }}
+                  role="gridcell"
+                  aria-colindex={wi + 2}
+                  aria-label={describeDay(date)}
+                  aria-selected={
+                    onSelectDate ? date === selectedDate : undefined
+                  }
+                  tabIndex={date === activeDate ? 0 : -1}
+                  className={`rounded-[2px] shrink-0 transition-all duration-150 cursor-pointer hover:ring-1 hover:ring-foreground/30 focus:outline-none focus-visible:ring-1 focus-visible:ring-foreground/70 flex items-center justify-center ${
+                    date === selectedDate ? "ring-1 ring-foreground/80" : ""
+                  }`}
+                  style={{
+                    width: `${CELL_SIZE}px`,
+                    height: `${CELL_SIZE}px`,
+                    backgroundColor:
+                      series.colors[
+                        seriesScale.getLevel(values.get(date) ?? 0)
+                      ],
+                    opacity:
+                      highlight &&
+                      (date < highlight.start || date > highlight.end)
+                        ? 0.25
+                        : 1,
+                  }}
+                  onMouseEnter={(e) =>
+                    showTooltip(describeDay(date), e.currentTarget)
+                  }
+                  onMouseLeave={hideTooltip}
+                  onFocus={(e) => {
+                    setFocusedDate(date);
+                    showTooltip(describeDay(date), e.currentTarget);
+                  }}
+                  onBlur={hideTooltip}
+                  onClick={() => {
+                    setFocusedDate(date);
+                    onSelectDate?.(date);
+                  }}
+                >
+                  {overlay && overlayLevel > 0 && (
+                    <OverlayDot
+                      color={overlay.colors[overlay.colors.length - 1]}
+                      level={overlayLevel}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      {/* Screen-reader summary of the grid */}
+      <table className="sr-only">
+        <caption>{series.label} by month</caption>
+        <thead>
+          <tr>
+            <th scope="col">Month</th>
+            <th scope="col">{series.label}</th>
+            <th scope="col">Active days</th>
+            {overlay && <th scope="col">{overlay.label}</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {monthSummary.map((m) => (
+            <tr key={m.month}>
+              <th scope="row">{m.label}</th>
+              <td>{series.formatValue(m.total)}</td>
+              <td>{m.activeDays}</td>
+              {overlay && (
+                <td>
+                  {overlay.formatValue(
+                    overlaySummary.find((o) => o.month === m.month)?.total ?? 0,
+                  )}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Legend — the loaded value range behind each swatch */}
+      {[
+        { entry: series, scale: seriesScale },
+        ...(overlay && overlayScale
+          ? [{ entry: overlay, scale: overlayScale }]
+          : []),
+      ].map(({ entry, scale }) => {
+        const isOverlay = entry === overlay;
+        return (
+          <div
+            key={entry.label}
+            className="flex flex-wrap items-center justify-end gap-x-3 gap-y-1 mt-4 pr-1"
+          >
+            {overlay && (
+              <span className="meta-text text-foreground/30 text-[10px] mr-1">
+                {entry.label}
+              </span>
+            )}
+            {entry.colors.map((color, i) => {
+              const range = scale.ranges[i];
+              return (
+                <div key={i} className="flex items-center gap-1">
+                  {/* Overlay levels are drawn the way the grid draws them */}
+                  <div
+                    className="rounded-[2px] flex items-center justify-center"
+                    style={{
+                      width: `${CELL_SIZE}px`,
+                      height: `${CELL_SIZE}px`,
+                      backgroundColor: isOverlay ? series.colors[0] : color,
+                    }}
+                  >
+                    {isOverlay && i > 0 && (
+                      <OverlayDot
+                        color={entry.colors[entry.colors.length - 1]}
+                        level={i}
+                      />
+                    )}
+                  </div>
+                  <span className="meta-text text-foreground/30 text-[10px]">
+                    {!range
+                      ? "—"
+                      : range[0] === range[1]
+                        ? entry.formatShort(range[0])
+                        : `${entry.formatShort(range[0])}–${entry.formatShort(range[1])}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
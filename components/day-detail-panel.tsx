@@ -0,0 +1,217 @@
+"use client";
+
+import { motion } from "framer-motion";
+import type {
+  GitHubContributionItem,
+  GitHubDayData,
+  HackatimeData,
+} from "@/lib/activity-types";
+import { useApiResource } from "@/hooks/use-api-resource";
+import { describeApiError } from "@/lib/api-client";
+import { formatDate, formatDuration } from "@/lib/format";
+
+interface DayDetailPanelProps {
+  date: string; // YYYY-MM-DD
+  // Zone of the grid cell that was picked; GitHub's own data is always by
+  // UTC day
+  timeZone?: string;
+  onClose: () => void;
+}
+
+function ItemList({
+  label,
+  items,
+}: {
+  label: string;
+  items: GitHubContributionItem[];
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <p className="meta-text text-foreground/40 mb-2">{label}</p>
+      <ul className="space-y-1.5">
+        {items.map((item) => (
+          <li key={item.url}>
+            <a
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-baseline gap-2 group"
+            >
+              <span className="meta-text text-foreground/40 text-xs shrink-0">
+                {item.repository.split("/")[1]}#{item.number}
+              </span>
+              <span className="body-text text-foreground/80 text-sm truncate group-hover:text-foreground transition-colors duration-300">
+                {item.title}
+              </span>
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// What happened on one heatmap day: GitHub activity, plus coding time and
+// languages when Hackatime is configured.
+export function DayDetailPanel({
+  date,
+  timeZone = "UTC",
+  onClose,
+}: DayDetailPanelProps) {
+  const githubDay = useApiResource<GitHubDayData>(
+    `/api/github/day?date=${date}`,
+  );
+  // Coding time is asked for the same day the picked cell showed
+  const codingDay = useApiResource<HackatimeData>(
+    `/api/hackatime?start=${date}&end=${date}&tz=${encodeURIComponent(timeZone)}`,
+  );
+  // Never show the previous day's activity under this day's heading
+  const loading = githubDay.loading || codingDay.loading;
+  const { data: github, error: githubError } = githubDay;
+  const { data: coding, error: codingError } = codingDay;
+
+  const totalCommits =
+    github?.commits.reduce((sum, repo) => sum + repo.commits, 0) ?? 0;
+  const githubEmpty =
+    github !== null &&
+    totalCommits === 0 &&
+    github.pullRequests.length === 0 &&
+    github.issues.length === 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -8 }}
+      transition={{ duration: 0.3, ease: [0.25, 0.1, 0.25, 1.0] }}
+      className="mt-6 p-5 rounded-lg border border-foreground/10 bg-white/[0.02]"
+      role="region"
+      aria-label={`Activity on ${formatDate(date)}`}
+    >
+      <div className="flex items-center justify-between gap-4 mb-5">
+        <p className="text-sm font-semibold text-foreground">
+          {formatDate(date)}
+          <span className="meta-text text-[10px] font-normal text-foreground/40 ml-2">
+            {timeZone}
+          </span>
+        </p>
+        <button
+          onClick={onClose}
+          className="meta-text text-[10px] text-foreground/40 hover:text-foreground transition-colors duration-300 cursor-pointer"
+        >
+          Close
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="w-5 h-5 border-2 border-foreground/20 border-t-foreground/60 rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+          <div className="flex flex-col gap-5">
+            {timeZone !== "UTC" && (
+              <p className="meta-text text-[10px] text-foreground/40">
+                GitHub activity by UTC day
+              </p>
+            )}
+            {githubError && (
+              <p className="body-text text-foreground/40 text-sm">
+                {describeApiError("GitHub", githubError)}
+              </p>
+            )}
+            {githubEmpty && (
+              <p className="body-text text-foreground/40 text-sm">
+                No public GitHub activity on this day.
+              </p>
+            )}
+            {github && totalCommits > 0 && (
+              <div>
+                <p className="meta-text text-foreground/40 mb-2">
+                  {totalCommits} commit{totalCommits !== 1 ? "s" : ""}
+                </p>
+                <ul className="space-y-1.5">
+                  {github.commits.map((repo) => (
+                    <li key={repo.nameWithOwner}>
+                      <a
+                        href={repo.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-between gap-4 group"
+                      >
+                        <span className="flex items-center gap-2 min-w-0 body-text text-foreground/80 text-sm group-hover:text-foreground transition-colors duration-300">
+                          <span
+                            className="w-2 h-2 rounded-full shrink-0"
+                            style={{
+                              backgroundColor:
+                                repo.languageColor ??
+                                "rgba(255, 255, 255, 0.2)",
+                            }}
+                          />
+                          <span className="truncate">
+                            {repo.nameWithOwner.split("/")[1]}
+                          </span>
+                        </span>
+                        <span className="meta-text text-foreground/40 text-xs shrink-0">
+                          {repo.commits}
+                        </span>
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {github && (
+              <>
+                <ItemList
+                  label="Pull requests opened"
+                  items={github.pullRequests}
+                />
+                <ItemList label="Issues filed" items={github.issues} />
+              </>
+            )}
+          </div>
+
+          {/* Coding time is optional: hidden when Hackatime isn't set up */}
+          {codingError?.code !== "not_configured" && (
+            <div>
+              <p className="meta-text text-foreground/40 mb-2">Coding time</p>
+              {codingError ? (
+                <p className="body-text text-foreground/40 text-sm">
+                  {describeApiError("Hackatime", codingError)}
+                </p>
+              ) : coding && coding.total_seconds > 0 ? (
+                <>
+                  <p className="text-xl font-semibold text-foreground mb-3">
+                    {formatDuration(coding.total_seconds)}
+                  </p>
+                  <ul className="space-y-1.5">
+                    {coding.languages.map((language) => (
+                      <li
+                        key={language.name}
+                        className="flex items-center justify-between gap-4"
+                      >
+                        <span className="body-text text-foreground/80 text-sm truncate">
+                          {language.name}
+                        </span>
+                        <span className="meta-text text-foreground/40 text-xs shrink-0">
+                          {language.text}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              ) : (
+                <p className="body-text text-foreground/40 text-sm">
+                  No coding time recorded.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
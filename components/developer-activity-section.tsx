@@ -1,54 +1,64 @@
 "use client";
 
-import { motion, Variants } from "framer-motion";
-import { useEffect, useState, useCallback } from "react";
-
-// --- Types ---
-
-interface GitHubContributionDay {
-  contributionCount: number;
-  date: string;
-  color: string;
-  weekday: number;
-}
-
-interface GitHubContributionWeek {
-  contributionDays: GitHubContributionDay[];
-}
-
-interface GitHubData {
-  totalContributions: number;
-  weeks: GitHubContributionWeek[];
-}
-
-interface HackatimeLanguage {
-  name: string;
-  total_seconds: number;
-  percent: number;
-  text: string;
-  color?: string;
-}
-
-interface HackatimeData {
-  total_seconds: number;
-  daily_average: number;
-  languages: HackatimeLanguage[];
-  human_readable_total?: string;
-  human_readable_daily_average?: string;
-  human_readable_range?: string;
-  streak?: number;
-  start?: string;
-}
+import { AnimatePresence, motion, Variants } from "framer-motion";
+import { useEffect, useState } from "react";
+import type {
+  Cached,
+  CacheMeta,
+  GitHubContributionBreakdown,
+  GitHubData,
+  GitHubLifetimeSummary,
+  HackatimeBreakdownKey,
+  HackatimeDailyData,
+  HackatimeData,
+  HackatimeStatItem,
+} from "@/lib/activity-types";
+import { describeApiError } from "@/lib/api-client";
+import { computeActivityStats } from "@/lib/activity-stats";
+import {
+  formatDate,
+  formatDateRange,
+  formatDuration,
+  formatTimestamp,
+} from "@/lib/format";
+import { HEATMAP_THEMES } from "@/lib/heatmap";
+import { getPillStyle } from "@/lib/pill-style";
+import {
+  ContributionHeatmap,
+  type HeatmapSeries,
+} from "@/components/contribution-heatmap";
+import { DayDetailPanel } from "@/components/day-detail-panel";
+import { prefetchApiResource, useApiResource } from "@/hooks/use-api-resource";
 
 // --- Constants & Helpers ---
 
 const RANGE_OPTIONS = [
   { value: "last_7_days", label: "7 Days" },
   { value: "last_30_days", label: "30 Days" },
+  { value: "this_month", label: "This Month" },
+  { value: "last_month", label: "Last Month" },
   { value: "last_6_months", label: "6 Months" },
+  { value: "year_to_date", label: "YTD" },
   { value: "last_year", label: "1 Year" },
 ];
 
+const CUSTOM_RANGE = "custom";
+
+// Presets like "this month" are resolved in the visitor's time zone
+function getHackatimeUrl(query: string): string {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return `/api/hackatime?${query}&tz=${encodeURIComponent(timeZone)}`;
+}
+
+const BREAKDOWN_TABS: { key: HackatimeBreakdownKey; label: string }[] = [
+  { key: "languages", label: "Languages" },
+  { key: "editors", label: "Editors" },
+  { key: "operating_systems", label: "OS" },
+  { key: "projects", label: "Projects" },
+];
+
+const OTHER_COLOR = "rgba(255, 255, 255, 0.2)";
+
 const LANGUAGE_COLORS = [
   "#39d353", // green
   "#58a6ff", // blue
@@ -60,52 +70,30 @@ const LANGUAGE_COLORS = [
   "#7ee787", // light green
 ];
 
-const GITHUB_LEVEL_COLORS = [
-  "rgba(255, 255, 255, 0.04)", // level 0 — empty
-  "#0e4429", // level 1
-  "#006d32", // level 2
-  "#26a641", // level 3
-  "#39d353", // level 4
-];
-
-const MONTH_LABELS = [
-  "Jan",
-  "Feb",
-  "Mar",
-  "Apr",
-  "May",
-  "Jun",
-  "Jul",
-  "Aug",
-  "Sep",
-  "Oct",
-  "Nov",
-  "Dec",
+const BREAKDOWN_SEGMENTS: {
+  key: keyof GitHubContributionBreakdown;
+  label: string;
+  color: string;
+}[] = [
+  { key: "commits", label: "Commits", color: "#39d353" },
+  { key: "pullRequests", label: "Pull Requests", color: "#58a6ff" },
+  { key: "issues", label: "Issues", color: "#f78166" },
+  { key: "reviews", label: "Reviews", color: "#d2a8ff" },
 ];
 
-function getGitHubLevel(count: number): number {
-  if (count === 0) return 0;
-  if (count <= 3) return 1;
-  if (count <= 6) return 2;
-  if (count <= 9) return 3;
-  return 4;
-}
+type HeatmapMode = "contributions" | "coding" | "combined";
 
-function formatDate(dateStr: string): string {
-  const date = new Date(dateStr + "T00:00:00");
-  return date.toLocaleDateString("en-US", {
-    weekday: "short",
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-  });
-}
+const HEATMAP_MODES: { value: HeatmapMode; label: string }[] = [
+  { value: "contributions", label: "Contributions" },
+  { value: "coding", label: "Coding time" },
+  { value: "combined", label: "Combined" },
+];
 
-function formatTime(totalSeconds: number): string {
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  if (hours >= 1) return `${hours}h ${minutes}m`;
-  return `${minutes}m`;
+// YYYY-MM-DD in the visitor's local time zone
+function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 function formatHours(totalSeconds: number): string {
@@ -114,144 +102,248 @@ function formatHours(totalSeconds: number): string {
   return hours.toLocaleString();
 }
 
-function computeGitHubStreaks(weeks: GitHubContributionWeek[]) {
-  const allDays = weeks.flatMap((w) => w.contributionDays);
-  let currentStreak = 0;
-  let longestStreak = 0;
-  let tempStreak = 0;
-
-  for (const day of allDays) {
-    if (day.contributionCount > 0) {
-      tempStreak++;
-      longestStreak = Math.max(longestStreak, tempStreak);
-    } else {
-      tempStreak = 0;
-    }
-  }
-
-  for (let i = allDays.length - 1; i >= 0; i--) {
-    if (allDays[i].contributionCount > 0) {
-      currentStreak++;
-    } else {
-      break;
-    }
-  }
-  return { currentStreak, longestStreak };
-}
-
-function getMonthLabels(weeks: GitHubContributionWeek[]) {
-  const labels: { label: string; col: number }[] = [];
-  let lastMonth = -1;
-  weeks.forEach((week, i) => {
-    const firstDay = week.contributionDays[0];
-    if (!firstDay) return;
-    const month = new Date(firstDay.date + "T00:00:00").getMonth();
-    if (month !== lastMonth) {
-      labels.push({ label: MONTH_LABELS[month], col: i });
-      lastMonth = month;
-    }
-  });
-  return labels;
+// "as of …" note for stale data, badged when it comes from a recorded
+// snapshot or the demo dataset rather than the live provider
+function DataAsOf({ source, meta }: { source: string; meta: CacheMeta }) {
+  return (
+    <p className="flex items-center gap-2 meta-text text-[10px] text-foreground/30">
+      {meta.source && (
+        <span className="px-2 py-0.5 rounded-full" style={getPillStyle(false)}>
+          {meta.source === "demo" ? "Demo data" : "Snapshot"}
+        </span>
+      )}
+      {source} data as of {formatTimestamp(meta.fetchedAt)}
+    </p>
+  );
 }
 
 // --- Component ---
 
 export function DeveloperActivitySection() {
   // State
-  const [githubData, setGithubData] = useState<GitHubData | null>(null);
-  const [hackatimeData, setHackatimeData] = useState<HackatimeData | null>(
-    null,
-  );
-
-  const [loadingGithub, setLoadingGithub] = useState(true);
-  const [loadingHackatime, setLoadingHackatime] = useState(true);
-
-  const [errorGithub, setErrorGithub] = useState(false);
-  const [errorHackatime, setErrorHackatime] = useState(false);
-
   const [activeRange, setActiveRange] = useState("last_year");
-  const [tooltip, setTooltip] = useState<{
-    text: string;
-    x: number;
-    y: number;
+  const [customRange, setCustomRange] = useState<{
+    start: string;
+    end: string;
   } | null>(null);
+  const [showRangePicker, setShowRangePicker] = useState(false);
+  const [activeBreakdown, setActiveBreakdown] =
+    useState<HackatimeBreakdownKey>("languages");
+  const [draftRange, setDraftRange] = useState(() => {
+    const end = new Date();
+    const start = new Date();
+    start.setDate(end.getDate() - 30);
+    return { start: toDateInputValue(start), end: toDateInputValue(end) };
+  });
+  const [activeYear, setActiveYear] = useState<number | null>(null); // null = past 12 months
+  const [contributionYears, setContributionYears] = useState<number[]>([]);
 
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>("contributions");
+  const [logScale, setLogScale] = useState(false);
+  const [highlightedStreak, setHighlightedStreak] = useState<
+    "current" | "longest" | null
+  >(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
   // Fetch GitHub Data
+  const github = useApiResource<Cached<GitHubData>>(
+    activeYear ? `/api/github?year=${activeYear}` : "/api/github",
+  );
+  const githubData = github.data;
+  const loadingGithub = github.loading && !githubData;
+  const errorGithub = github.error;
+
+  // Keep the year picker populated while another year loads
   useEffect(() => {
-    fetch("/api/github")
-      .then((res) => {
-        if (!res.ok) throw new Error("Failed");
-        return res.json();
-      })
-      .then((d) => {
-        setGithubData(d);
-        setLoadingGithub(false);
-      })
-      .catch(() => {
-        setErrorGithub(true);
-        setLoadingGithub(false);
-      });
-  }, []);
+    if (githubData) setContributionYears(githubData.contributionYears);
+  }, [githubData]);
+
+  // Lifetime summary only feeds the extra tiles, so failures just leave them empty
+  const { data: lifetime } = useApiResource<GitHubLifetimeSummary>(
+    "/api/github?view=lifetime",
+  );
 
   // Fetch Hackatime Data
-  const fetchHackatime = useCallback((range: string) => {
-    setLoadingHackatime(true);
-    setErrorHackatime(false);
-    setHackatimeData(null); // Optional: clear data while loading new range? Or keep stale? Keeping stale might be better UX, but let's follow original pattern for now.
-
-    fetch(`/api/hackatime?range=${range}`)
-      .then((res) => {
-        if (!res.ok) throw new Error("Failed");
-        return res.json();
-      })
-      .then((d) => {
-        setHackatimeData(d);
-        setLoadingHackatime(false);
-      })
-      .catch(() => {
-        setErrorHackatime(true);
-        setLoadingHackatime(false);
-      });
-  }, []);
+  const hackatimeQuery =
+    activeRange === CUSTOM_RANGE && customRange
+      ? `start=${customRange.start}&end=${customRange.end}`
+      : `range=${activeRange}`;
+  const hackatime = useApiResource<Cached<HackatimeData>>(
+    getHackatimeUrl(hackatimeQuery),
+  );
+  const hackatimeData = hackatime.data;
+  const loadingHackatime = hackatime.loading && !hackatimeData;
+  const errorHackatime = hackatime.error;
 
+  // Once the current range is in, warm the cache for the pills either side of
+  // it while the browser is idle
+  const hackatimeSettled = !hackatime.loading;
   useEffect(() => {
-    fetchHackatime(activeRange);
-  }, [activeRange, fetchHackatime]);
+    const index = RANGE_OPTIONS.findIndex((o) => o.value === activeRange);
+    if (!hackatimeSettled || index === -1) return;
+
+    const prefetchNeighbours = () => {
+      for (const option of [
+        RANGE_OPTIONS[index - 1],
+        RANGE_OPTIONS[index + 1],
+      ]) {
+        if (option)
+          prefetchApiResource(getHackatimeUrl(`range=${option.value}`));
+      }
+    };
+    if ("requestIdleCallback" in window) {
+      const handle = window.requestIdleCallback(prefetchNeighbours);
+      return () => window.cancelIdleCallback(handle);
+    }
+    const handle = setTimeout(prefetchNeighbours, 1000);
+    return () => clearTimeout(handle);
+  }, [activeRange, hackatimeSettled]);
+
+  // Fetch Hackatime daily totals for whatever window the heatmap shows: the
+  // loaded GitHub calendar, or the past year when GitHub is unavailable
+  const heatmapWindow = (() => {
+    if (githubData) {
+      const days = githubData.weeks.flatMap((w) => w.contributionDays);
+      if (days.length > 0) {
+        return { start: days[0].date, end: days[days.length - 1].date };
+      }
+    }
+    const end = new Date();
+    const start = new Date();
+    start.setDate(end.getDate() - 364);
+    return { start: toDateInputValue(start), end: toDateInputValue(end) };
+  })();
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const daily = useApiResource<HackatimeDailyData>(
+    heatmapMode === "contributions" || loadingGithub
+      ? null
+      : `/api/hackatime/daily?start=${heatmapWindow.start}&end=${heatmapWindow.end}&tz=${encodeURIComponent(timeZone)}`,
+  );
+  const dailyData = daily.data;
+  const loadingDaily = daily.loading && !dailyData;
+  const errorDaily = daily.error;
 
   // Event Handlers
   const handleRangeChange = (range: string) => {
+    setShowRangePicker(false);
     if (range === activeRange) return;
     setActiveRange(range);
   };
 
-  const handleCellHover = useCallback(
-    (day: GitHubContributionDay, e: React.MouseEvent) => {
-      const rect = (e.target as HTMLElement).getBoundingClientRect();
-      const parentRect = (e.target as HTMLElement)
-        .closest(".github-graph-container")!
-        .getBoundingClientRect();
-      setTooltip({
-        text: `${day.contributionCount} contribution${day.contributionCount !== 1 ? "s" : ""} on ${formatDate(day.date)}`,
-        x: rect.left - parentRect.left + rect.width / 2,
-        y: rect.top - parentRect.top - 8,
-      });
-    },
-    [],
-  );
+  const isDraftRangeValid =
+    draftRange.start !== "" &&
+    draftRange.end !== "" &&
+    draftRange.start <= draftRange.end;
 
-  const handleCellLeave = useCallback(() => setTooltip(null), []);
+  const handleCustomRangeApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isDraftRangeValid) return;
+    setCustomRange(draftRange);
+    setActiveRange(CUSTOM_RANGE);
+    setShowRangePicker(false);
+  };
+
+  const handleYearChange = (value: string) => {
+    const year = value ? Number(value) : null;
+    if (year === activeYear) return;
+    setActiveYear(year);
+  };
 
   // Derived Data
-  const githubStreaks = githubData
-    ? computeGitHubStreaks(githubData.weeks)
+  // A finished calendar year has no "current" streak to speak of
+  const showCurrentStreak = activeYear === null;
+  const showContributions = heatmapMode !== "coding";
+  const showCoding = heatmapMode !== "contributions";
+
+  const contributionSeries: HeatmapSeries | null = githubData
+    ? {
+        label: "Contributions",
+        data: githubData.weeks
+          .flatMap((w) => w.contributionDays)
+          .map((d) => ({ date: d.date, value: d.contributionCount })),
+        colors: HEATMAP_THEMES.github,
+        formatValue: (count) =>
+          `${count} contribution${count !== 1 ? "s" : ""}`,
+        formatShort: String,
+      }
+    : null;
+  const codingSeries: HeatmapSeries | null = dailyData
+    ? {
+        label: "Coding time",
+        data: dailyData.days.map((d) => ({
+          date: d.date,
+          value: d.total_seconds,
+        })),
+        colors: HEATMAP_THEMES.coding,
+        formatValue: (seconds) => `${formatDuration(seconds)} coding`,
+        formatShort: formatDuration,
+      }
+    : null;
+
+  const githubStats = contributionSeries
+    ? computeActivityStats(
+        contributionSeries.data,
+        toDateInputValue(new Date()),
+      )
+    : null;
+  const currentStreak = showCurrentStreak
+    ? (githubStats?.currentStreak ?? null)
     : null;
-  const monthLabels = githubData ? getMonthLabels(githubData.weeks) : [];
+  const longestStreak = githubStats?.longestStreak ?? null;
+  const heatmapHighlight =
+    highlightedStreak === "current"
+      ? currentStreak
+      : highlightedStreak === "longest"
+        ? longestStreak
+        : null;
+
+  const toggleStreakHighlight = (streak: "current" | "longest") =>
+    setHighlightedStreak((prev) => (prev === streak ? null : streak));
 
-  const topLanguages =
-    hackatimeData?.languages
-      ?.filter((l) => l.name !== "Other" && l.total_seconds > 0)
-      .slice(0, 6) ?? [];
-  const maxLangPercent = topLanguages.length > 0 ? topLanguages[0].percent : 1;
+  const heatmapSeries = showContributions ? contributionSeries : codingSeries;
+  // A failed coding series only drops the overlay; the contributions stay
+  const overlayError =
+    heatmapMode === "combined" && errorDaily
+      ? {
+          message: describeApiError("Hackatime", errorDaily),
+          retry: daily.retry,
+        }
+      : null;
+  const heatmapOverlay =
+    heatmapMode === "combined" && !overlayError ? codingSeries : null;
+
+  const heatmapLoading =
+    (showContributions && loadingGithub) || (showCoding && loadingDaily);
+  const heatmapError =
+    showContributions && errorGithub
+      ? {
+          message: describeApiError("GitHub", errorGithub),
+          retry: github.retry,
+        }
+      : heatmapMode === "coding" && errorDaily
+        ? {
+            message: describeApiError("Hackatime", errorDaily),
+            retry: daily.retry,
+          }
+        : null;
+
+  const breakdownTotal = githubData
+    ? BREAKDOWN_SEGMENTS.reduce(
+        (sum, segment) => sum + githubData.breakdown[segment.key],
+        0,
+      )
+    : 0;
+
+  // Already sorted and bucketed (top entries + "Other") by the route
+  const breakdownItems = hackatimeData?.[activeBreakdown] ?? [];
+  const maxBreakdownPercent = Math.max(
+    1,
+    ...breakdownItems.map((item) => item.percent),
+  );
+  const barWidth = (item: HackatimeStatItem) =>
+    `${(item.percent / maxBreakdownPercent) * 100}%`;
+  const activeBreakdownLabel = BREAKDOWN_TABS.find(
+    (tab) => tab.key === activeBreakdown,
+  )!.label;
 
   // Animations
   const titleVariants: Variants = {
@@ -306,28 +398,103 @@ export function DeveloperActivitySection() {
               <button
                 key={option.value}
                 onClick={() => handleRangeChange(option.value)}
+                onMouseEnter={() =>
+                  prefetchApiResource(getHackatimeUrl(`range=${option.value}`))
+                }
+                onFocus={() =>
+                  prefetchApiResource(getHackatimeUrl(`range=${option.value}`))
+                }
                 className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300 cursor-pointer"
-                style={{
-                  backgroundColor:
-                    activeRange === option.value
-                      ? "rgba(255, 255, 255, 0.12)"
-                      : "rgba(255, 255, 255, 0.04)",
-                  color:
-                    activeRange === option.value
-                      ? "rgba(255, 255, 255, 0.9)"
-                      : "rgba(255, 255, 255, 0.4)",
-                  border:
-                    activeRange === option.value
-                      ? "1px solid rgba(255, 255, 255, 0.2)"
-                      : "1px solid rgba(255, 255, 255, 0.06)",
-                }}
+                style={getPillStyle(activeRange === option.value)}
               >
                 {option.label}
               </button>
             ))}
+
+            {/* Custom Date Range */}
+            <button
+              onClick={() => setShowRangePicker((open) => !open)}
+              aria-expanded={showRangePicker}
+              aria-controls="hackatime-range-picker"
+              className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300 cursor-pointer"
+              style={getPillStyle(activeRange === CUSTOM_RANGE)}
+            >
+              {activeRange === CUSTOM_RANGE && customRange
+                ? `${customRange.start} → ${customRange.end}`
+                : "Custom"}
+            </button>
+
+            {/* Heatmap Year Picker */}
+            {contributionYears.length > 0 && (
+              <select
+                aria-label="Contribution year"
+                value={activeYear ?? ""}
+                onChange={(e) => handleYearChange(e.target.value)}
+                className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300 cursor-pointer appearance-none outline-none"
+                style={getPillStyle(activeYear !== null)}
+              >
+                <option value="" style={{ backgroundColor: "#1a1a1c" }}>
+                  Past Year
+                </option>
+                {contributionYears.map((year) => (
+                  <option
+                    key={year}
+                    value={year}
+                    style={{ backgroundColor: "#1a1a1c" }}
+                  >
+                    {year}
+                  </option>
+                ))}
+              </select>
+            )}
           </motion.div>
         </div>
 
+        {showRangePicker && (
+          <form
+            id="hackatime-range-picker"
+            onSubmit={handleCustomRangeApply}
+            className="flex flex-wrap items-end justify-end gap-4 -mt-6 mb-12"
+          >
+            <label className="flex flex-col gap-1 meta-text text-xs text-foreground/40">
+              From
+              <input
+                type="date"
+                value={draftRange.start}
+                max={draftRange.end || undefined}
+                onChange={(e) =>
+                  setDraftRange((range) => ({
+                    ...range,
+                    start: e.target.value,
+                  }))
+                }
+                className="px-3 py-1.5 rounded-md text-foreground/80 bg-white/5 border border-white/10 [color-scheme:dark]"
+              />
+            </label>
+            <label className="flex flex-col gap-1 meta-text text-xs text-foreground/40">
+              To
+              <input
+                type="date"
+                value={draftRange.end}
+                min={draftRange.start || undefined}
+                max={toDateInputValue(new Date())}
+                onChange={(e) =>
+                  setDraftRange((range) => ({ ...range, end: e.target.value }))
+                }
+                className="px-3 py-1.5 rounded-md text-foreground/80 bg-white/5 border border-white/10 [color-scheme:dark]"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!isDraftRangeValid}
+              className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300 cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+              style={getPillStyle(true)}
+            >
+              Apply
+            </button>
+          </form>
+        )}
+
         <motion.div
           variants={containerVariants}
           initial="hidden"
@@ -345,7 +512,7 @@ export function DeveloperActivitySection() {
               {/* 1. Total Contributions */}
               <div>
                 <p className="meta-text text-foreground/40 mb-1">
-                  Contributions (Year)
+                  Contributions ({activeYear ?? "Year"})
                 </p>
                 <p className="text-xl sm:text-2xl font-semibold text-foreground">
                   {loadingGithub
@@ -355,161 +522,348 @@ export function DeveloperActivitySection() {
                       : "—"}
                 </p>
               </div>
-              {/* 2. Current Streak */}
-              <div>
+              {/* 2. Current Streak — click to highlight it on the heatmap */}
+              <button
+                type="button"
+                onClick={() => toggleStreakHighlight("current")}
+                disabled={!currentStreak}
+                aria-pressed={highlightedStreak === "current"}
+                className="text-left cursor-pointer disabled:cursor-default"
+              >
                 <p className="meta-text text-foreground/40 mb-1">
                   Current Streak
                 </p>
                 <p className="text-xl sm:text-2xl font-semibold text-foreground">
                   {loadingGithub
                     ? "..."
-                    : githubStreaks
-                      ? `${githubStreaks.currentStreak} `
+                    : githubStats && showCurrentStreak
+                      ? `${currentStreak?.length ?? 0} `
                       : "— "}
                   <span className="text-sm font-normal text-foreground/40">
                     days
                   </span>
                 </p>
-              </div>
+                {currentStreak && (
+                  <p
+                    className={`meta-text text-[10px] mt-1 transition-colors duration-300 ${
+                      highlightedStreak === "current"
+                        ? "text-foreground/70"
+                        : "text-foreground/30"
+                    }`}
+                  >
+                    {formatDateRange(currentStreak.start, currentStreak.end)}
+                  </p>
+                )}
+              </button>
               {/* 3. Longest Streak */}
-              <div>
+              <button
+                type="button"
+                onClick={() => toggleStreakHighlight("longest")}
+                disabled={!longestStreak}
+                aria-pressed={highlightedStreak === "longest"}
+                className="text-left cursor-pointer disabled:cursor-default"
+              >
                 <p className="meta-text text-foreground/40 mb-1">
                   Longest Streak
                 </p>
                 <p className="text-xl sm:text-2xl font-semibold text-foreground">
                   {loadingGithub
                     ? "..."
-                    : githubStreaks
-                      ? `${githubStreaks.longestStreak} `
+                    : githubStats
+                      ? `${longestStreak?.length ?? 0} `
                       : "— "}
                   <span className="text-sm font-normal text-foreground/40">
                     days
                   </span>
                 </p>
+                {longestStreak && (
+                  <p
+                    className={`meta-text text-[10px] mt-1 transition-colors duration-300 ${
+                      highlightedStreak === "longest"
+                        ? "text-foreground/70"
+                        : "text-foreground/30"
+                    }`}
+                  >
+                    {formatDateRange(longestStreak.start, longestStreak.end)}
+                  </p>
+                )}
+              </button>
+              {/* 4. Active Days */}
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">Active Days</p>
+                <p className="text-xl sm:text-2xl font-semibold text-foreground">
+                  {loadingGithub
+                    ? "..."
+                    : githubStats
+                      ? `${Math.round(githubStats.activeDayPercent)}%`
+                      : "—"}
+                </p>
+              </div>
+              {/* 5. Average per Active Day */}
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">
+                  Avg / Active Day
+                </p>
+                <p className="text-xl sm:text-2xl font-semibold text-foreground">
+                  {loadingGithub
+                    ? "..."
+                    : githubStats
+                      ? githubStats.averagePerActiveDay.toFixed(1)
+                      : "—"}
+                </p>
+              </div>
+              {/* 6. Busiest Weekday */}
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">Busiest Day</p>
+                <p className="text-xl sm:text-2xl font-semibold text-foreground">
+                  {loadingGithub
+                    ? "..."
+                    : (githubStats?.busiestWeekday?.weekday.slice(0, 3) ?? "—")}
+                </p>
+              </div>
+              {/* 7. Busiest Month */}
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">
+                  Busiest Month
+                </p>
+                <p className="text-xl sm:text-2xl font-semibold text-foreground">
+                  {loadingGithub
+                    ? "..."
+                    : (githubStats?.busiestMonth?.label ?? "—")}
+                </p>
               </div>
             </motion.div>
 
-            {/* GitHub Graph */}
+            {/* Served from the last good snapshot while GitHub is unreachable */}
+            {githubData?.stale && (
+              <motion.div variants={itemVariants} className="-mt-6">
+                <DataAsOf source="GitHub" meta={githubData} />
+              </motion.div>
+            )}
+
+            {/* Activity Heatmap (GitHub contributions / Hackatime coding time) */}
             <motion.div variants={itemVariants}>
-              {loadingGithub && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {HEATMAP_MODES.map((mode) => (
+                  <button
+                    key={mode.value}
+                    onClick={() => setHeatmapMode(mode.value)}
+                    aria-pressed={heatmapMode === mode.value}
+                    className="px-3 py-1 rounded-full meta-text text-[10px] transition-all duration-300 cursor-pointer"
+                    style={getPillStyle(heatmapMode === mode.value)}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setLogScale((prev) => !prev)}
+                  aria-pressed={logScale}
+                  className="ml-auto px-3 py-1 rounded-full meta-text text-[10px] transition-all duration-300 cursor-pointer"
+                  style={getPillStyle(logScale)}
+                >
+                  Log scale
+                </button>
+              </div>
+
+              {heatmapLoading && (
                 <div className="flex items-center justify-center py-10">
                   <div className="w-6 h-6 border-2 border-foreground/20 border-t-foreground/60 rounded-full animate-spin" />
                 </div>
               )}
-              {errorGithub && (
+              {!heatmapLoading && heatmapError && (
                 <div className="py-10 text-center">
                   <p className="body-text text-foreground/40">
-                    Unable to load GitHub activity.
+                    {heatmapError.message}
                   </p>
+                  <button
+                    onClick={heatmapError.retry}
+                    className="mt-4 px-4 py-1.5 rounded-full meta-text text-xs cursor-pointer"
+                    style={getPillStyle(false)}
+                  >
+                    Retry
+                  </button>
                 </div>
               )}
-              {!loadingGithub && !errorGithub && githubData && (
-                <div className="github-graph-container relative overflow-x-auto pb-4 custom-scrollbar">
-                  {/* Tooltip */}
-                  {tooltip && (
-                    <div
-                      className="absolute pointer-events-none z-20 px-3 py-1.5 rounded-md text-xs font-medium whitespace-nowrap"
-                      style={{
-                        left: tooltip.x,
-                        top: tooltip.y,
-                        transform: "translate(-50%, -100%)",
-                        backgroundColor: "rgba(30, 30, 32, 0.95)",
-                        border: "1px solid rgba(255,255,255,0.1)",
-                        color: "rgba(255,255,255,0.85)",
-                        boxShadow: "0 4px 12px rgba(0,0,0,0.4)",
-                      }}
-                    >
-                      {tooltip.text}
-                    </div>
-                  )}
+              {!heatmapLoading && !heatmapError && heatmapSeries && (
+                <ContributionHeatmap
+                  series={heatmapSeries}
+                  overlay={heatmapOverlay ?? undefined}
+                  scaleMode={logScale ? "log" : "quantile"}
+                  highlight={heatmapHighlight}
+                  selectedDate={selectedDay}
+                  onSelectDate={(date) =>
+                    setSelectedDay((prev) => (prev === date ? null : date))
+                  }
+                />
+              )}
+              {!heatmapLoading && !heatmapError && overlayError && (
+                <p className="flex items-center gap-3 mt-3 meta-text text-[10px] text-foreground/40">
+                  {overlayError.message}
+                  <button
+                    onClick={overlayError.retry}
+                    className="px-3 py-1 rounded-full meta-text text-[10px] cursor-pointer"
+                    style={getPillStyle(false)}
+                  >
+                    Retry
+                  </button>
+                </p>
+              )}
 
-                  {/* Month labels */}
-                  <div className="flex mb-2 ml-[28px]" style={{ gap: 0 }}>
-                    {monthLabels.map((m, i) => {
-                      const nextCol =
-                        i < monthLabels.length - 1
-                          ? monthLabels[i + 1].col
-                          : githubData.weeks.length;
-                      const span = nextCol - m.col;
-                      return (
-                        <span
-                          key={`${m.label}-${m.col}`}
-                          className="meta-text text-foreground/30 text-[10px]"
-                          style={{ width: `${span * 14}px`, flexShrink: 0 }}
-                        >
-                          {m.label}
-                        </span>
-                      );
-                    })}
-                  </div>
+              <AnimatePresence>
+                {selectedDay && (
+                  <DayDetailPanel
+                    key={selectedDay}
+                    date={selectedDay}
+                    // Coding-time cells are the visitor's days, the rest UTC
+                    timeZone={heatmapMode === "coding" ? timeZone : "UTC"}
+                    onClose={() => setSelectedDay(null)}
+                  />
+                )}
+              </AnimatePresence>
+            </motion.div>
 
-                  <div className="flex gap-0">
-                    {/* Day labels */}
-                    <div
-                      className="flex flex-col justify-between pr-2 shrink-0"
-                      style={{ height: `${7 * 14 - 2}px` }}
-                    >
-                      {["", "Mon", "", "Wed", "", "Fri", ""].map((d, i) => (
-                        <span
-                          key={i}
-                          className="meta-text text-foreground/30 text-[10px] leading-[12px] h-[12px] flex items-center"
-                        >
-                          {d}
-                        </span>
-                      ))}
-                    </div>
-
-                    {/* Grid */}
-                    <div className="flex" style={{ gap: "2px" }}>
-                      {githubData.weeks.map((week, wi) => (
-                        <div
-                          key={wi}
-                          className="flex flex-col"
-                          style={{ gap: "2px" }}
-                        >
-                          {week.contributionDays.map((day, di) => (
-                            <div
-                              key={`${wi}-${di}`}
-                              className="rounded-[2px] transition-all duration-150 cursor-pointer hover:ring-1 hover:ring-foreground/30"
-                              style={{
-                                width: "12px",
-                                height: "12px",
-                                backgroundColor:
-                                  GITHUB_LEVEL_COLORS[
-                                    getGitHubLevel(day.contributionCount)
-                                  ],
-                              }}
-                              onMouseEnter={(e) => handleCellHover(day, e)}
-                              onMouseLeave={handleCellLeave}
-                            />
-                          ))}
-                        </div>
+            {/* Contribution Breakdown & Most Active Repos */}
+            {!loadingGithub && !errorGithub && githubData && (
+              <motion.div
+                variants={itemVariants}
+                className="grid grid-cols-1 sm:grid-cols-2 gap-10"
+              >
+                <div>
+                  <p className="meta-text text-foreground/40 mb-4">
+                    Contribution Types
+                  </p>
+                  <div className="flex h-1.5 rounded-full overflow-hidden bg-white/5 mb-5">
+                    {breakdownTotal > 0 &&
+                      BREAKDOWN_SEGMENTS.map((segment) => (
+                        <motion.div
+                          key={segment.key}
+                          initial={{ scaleX: 0 }}
+                          whileInView={{ scaleX: 1 }}
+                          viewport={{ once: true }}
+                          transition={{
+                            duration: 0.8,
+                            ease: [0.25, 0.1, 0.25, 1.0],
+                          }}
+                          className="h-full"
+                          style={{
+                            width: `${(githubData.breakdown[segment.key] / breakdownTotal) * 100}%`,
+                            backgroundColor: segment.color,
+                            transformOrigin: "left",
+                          }}
+                        />
                       ))}
-                    </div>
                   </div>
-
-                  {/* Legend */}
-                  <div className="flex items-center justify-end gap-2 mt-4 pr-1">
-                    <span className="meta-text text-foreground/30 text-[10px] mr-1">
-                      Less
-                    </span>
-                    {GITHUB_LEVEL_COLORS.map((color, i) => (
+                  <div className="space-y-2">
+                    {BREAKDOWN_SEGMENTS.map((segment) => (
                       <div
-                        key={i}
-                        className="rounded-[2px]"
-                        style={{
-                          width: "12px",
-                          height: "12px",
-                          backgroundColor: color,
-                        }}
-                      />
+                        key={segment.key}
+                        className="flex items-center justify-between"
+                      >
+                        <span className="flex items-center gap-2 body-text text-foreground/80 text-sm">
+                          <span
+                            className="w-2 h-2 rounded-full"
+                            style={{ backgroundColor: segment.color }}
+                          />
+                          {segment.label}
+                        </span>
+                        <span className="meta-text text-foreground/40 text-xs">
+                          {githubData.breakdown[segment.key].toLocaleString()}
+                          {breakdownTotal > 0 &&
+                            ` · ${((githubData.breakdown[segment.key] / breakdownTotal) * 100).toFixed(1)}%`}
+                        </span>
+                      </div>
                     ))}
-                    <span className="meta-text text-foreground/30 text-[10px] ml-1">
-                      More
-                    </span>
                   </div>
                 </div>
-              )}
+
+                <div>
+                  <p className="meta-text text-foreground/40 mb-4">
+                    Most Active Repos
+                  </p>
+                  {githubData.topRepositories.length > 0 ? (
+                    <ul className="space-y-2">
+                      {githubData.topRepositories.map((repo) => (
+                        <li key={repo.nameWithOwner}>
+                          <a
+                            href={repo.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center justify-between gap-4 group"
+                          >
+                            <span className="flex items-center gap-2 min-w-0 body-text text-foreground/80 text-sm group-hover:text-foreground transition-colors duration-300">
+                              <span
+                                className="w-2 h-2 rounded-full shrink-0"
+                                style={{
+                                  backgroundColor:
+                                    repo.languageColor ??
+                                    "rgba(255, 255, 255, 0.2)",
+                                }}
+                                title={repo.language ?? undefined}
+                              />
+                              <span className="truncate">
+                                {repo.nameWithOwner.split("/")[1]}
+                              </span>
+                            </span>
+                            <span className="meta-text text-foreground/40 text-xs shrink-0">
+                              {repo.commits.toLocaleString()} commit
+                              {repo.commits !== 1 ? "s" : ""}
+                            </span>
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="body-text text-foreground/40 text-sm">
+                      No commits in this period.
+                    </p>
+                  )}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Lifetime Summary (all contribution years) */}
+            <motion.div
+              variants={itemVariants}
+              className="grid grid-cols-3 gap-6 pt-6 border-t border-foreground/10"
+            >
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">Lifetime</p>
+                <p className="text-lg font-semibold text-foreground">
+                  {lifetime
+                    ? lifetime.totalContributions.toLocaleString()
+                    : "—"}
+                </p>
+              </div>
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">Best Year</p>
+                <p className="text-lg font-semibold text-foreground">
+                  {lifetime?.bestYear ? (
+                    <>
+                      {lifetime.bestYear.year}{" "}
+                      <span className="text-sm font-normal text-foreground/40">
+                        {lifetime.bestYear.totalContributions.toLocaleString()}
+                      </span>
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </p>
+              </div>
+              <div>
+                <p className="meta-text text-foreground/40 mb-1">Best Day</p>
+                <p className="text-lg font-semibold text-foreground">
+                  {lifetime?.bestDay ? (
+                    <>
+                      {lifetime.bestDay.contributionCount}{" "}
+                      <span className="text-sm font-normal text-foreground/40">
+                        {formatDate(lifetime.bestDay.date)}
+                      </span>
+                    </>
+                  ) : (
+                    "—"
+                  )}
+                </p>
+              </div>
             </motion.div>
           </div>
 
@@ -546,14 +900,44 @@ export function DeveloperActivitySection() {
                     ? "..."
                     : hackatimeData
                       ? hackatimeData.human_readable_daily_average ||
-                        formatTime(hackatimeData.daily_average || 0)
+                        formatDuration(hackatimeData.daily_average || 0)
                       : "—"}
                 </p>
               </div>
             </motion.div>
 
-            {/* Language Bars */}
+            {hackatimeData?.stale && (
+              <motion.div variants={itemVariants} className="-mt-6">
+                <DataAsOf source="Hackatime" meta={hackatimeData} />
+              </motion.div>
+            )}
+
+            {/* Breakdown Bars (Languages / Editors / OS / Projects) */}
             <motion.div variants={itemVariants} className="flex-1">
+              <div
+                role="tablist"
+                aria-label="Coding time breakdown"
+                className="flex flex-wrap gap-4 mb-6"
+              >
+                {BREAKDOWN_TABS.map((tab) => (
+                  <button
+                    key={tab.key}
+                    role="tab"
+                    id={`breakdown-tab-${tab.key}`}
+                    aria-selected={activeBreakdown === tab.key}
+                    aria-controls="breakdown-panel"
+                    onClick={() => setActiveBreakdown(tab.key)}
+                    className={`meta-text text-xs pb-1 border-b transition-colors duration-300 cursor-pointer ${
+                      activeBreakdown === tab.key
+                        ? "text-foreground/90 border-foreground/60"
+                        : "text-foreground/40 border-transparent hover:text-foreground/70"
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+
               {loadingHackatime && (
                 <div className="flex items-center justify-center h-full min-h-[200px]">
                   <div className="w-6 h-6 border-2 border-foreground/20 border-t-foreground/60 rounded-full animate-spin" />
@@ -562,50 +946,82 @@ export function DeveloperActivitySection() {
               {errorHackatime && (
                 <div className="py-10 text-center">
                   <p className="body-text text-foreground/40">
-                    Unable to load coding stats.
+                    {describeApiError("Hackatime", errorHackatime)}
                   </p>
+                  <button
+                    onClick={hackatime.retry}
+                    className="mt-4 px-4 py-1.5 rounded-full meta-text text-xs cursor-pointer"
+                    style={getPillStyle(false)}
+                  >
+                    Retry
+                  </button>
                 </div>
               )}
 
-              {!loadingHackatime &&
-                !errorHackatime &&
-                topLanguages.length > 0 && (
-                  <div className="space-y-5">
-                    {topLanguages.map((lang, i) => (
-                      <div key={lang.name}>
-                        <div className="flex items-center justify-between mb-2">
-                          <span className="body-text text-foreground/80 text-sm">
-                            {lang.name}
-                          </span>
-                          <span className="meta-text text-foreground/40 text-xs">
-                            {lang.text || formatTime(lang.total_seconds)} ·{" "}
-                            {lang.percent.toFixed(1)}%
-                          </span>
-                        </div>
-                        <div className="h-1.5 rounded-full overflow-hidden bg-white/5">
-                          <motion.div
-                            initial={{ scaleX: 0 }}
-                            whileInView={{ scaleX: 1 }}
-                            viewport={{ once: true }}
-                            transition={{
-                              duration: 0.8,
-                              delay: 0.2 + i * 0.05,
+              {!loadingHackatime && !errorHackatime && hackatimeData && (
+                <div
+                  id="breakdown-panel"
+                  role="tabpanel"
+                  aria-labelledby={`breakdown-tab-${activeBreakdown}`}
+                  aria-busy={hackatime.loading}
+                  className={`space-y-5 transition-opacity duration-300 ${hackatime.loading ? "opacity-60" : ""}`}
+                >
+                  {breakdownItems.length === 0 && (
+                    <p className="body-text text-foreground/40 text-sm py-10 text-center">
+                      No {activeBreakdownLabel.toLowerCase()} data for this
+                      range.
+                    </p>
+                  )}
+                  {breakdownItems.map((item, i) => (
+                    <motion.div
+                      key={`${activeBreakdown}-${item.name}`}
+                      layout="position"
+                      transition={{
+                        duration: 0.5,
+                        ease: [0.25, 0.1, 0.25, 1.0],
+                      }}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="body-text text-foreground/80 text-sm">
+                          {item.name}
+                        </span>
+                        <span className="meta-text text-foreground/40 text-xs">
+                          {item.text || formatDuration(item.total_seconds)} ·{" "}
+                          {item.percent.toFixed(1)}%
+                        </span>
+                      </div>
+                      <div className="h-1.5 rounded-full overflow-hidden bg-white/5">
+                        {/* Rows persist across range changes, so the
+                            bar grows or shrinks from its previous width */}
+                        <motion.div
+                          initial={{ scaleX: 0, width: barWidth(item) }}
+                          whileInView={{ scaleX: 1 }}
+                          animate={{ width: barWidth(item) }}
+                          viewport={{ once: true }}
+                          transition={{
+                            duration: 0.8,
+                            delay: 0.2 + i * 0.05,
+                            ease: [0.25, 0.1, 0.25, 1.0],
+                            width: {
+                              duration: 0.5,
                               ease: [0.25, 0.1, 0.25, 1.0],
-                            }}
-                            className="h-full rounded-full"
-                            style={{
-                              width: `${(lang.percent / maxLangPercent) * 100}%`,
-                              backgroundColor:
-                                lang.color ||
-                                LANGUAGE_COLORS[i % LANGUAGE_COLORS.length],
-                              transformOrigin: "left",
-                            }}
-                          />
-                        </div>
+                            },
+                          }}
+                          className="h-full rounded-full"
+                          style={{
+                            backgroundColor:
+                              item.name === "Other"
+                                ? OTHER_COLOR
+                                : item.color ||
+                                  LANGUAGE_COLORS[i % LANGUAGE_COLORS.length],
+                            transformOrigin: "left",
+                          }}
+                        />
                       </div>
-                    ))}
-                  </div>
-                )}
+                    </motion.div>
+                  ))}
+                </div>
+              )}
             </motion.div>
           </div>
         </motion.div>
@@ -0,0 +1,188 @@
+"use client";
+
+import { motion, Variants } from "framer-motion";
+import { ArrowLeft, ArrowUpRight } from "lucide-react";
+import Image from "next/image";
+import Link from "next/link";
+import { CustomCursor } from "@/components/custom-cursor";
+import { Footer } from "@/components/footer";
+import { useArchivedProjects } from "@/hooks/use-archived-projects";
+import { projects, type Project } from "@/lib/projects";
+
+export function ProjectCaseStudy({ project }: { project: Project }) {
+  const isArchived = useArchivedProjects();
+  const archived = isArchived(project);
+  const index = projects.findIndex((p) => p.slug === project.slug);
+  const nextProject = projects[(index + 1) % projects.length];
+
+  const containerVariants: Variants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1,
+        delayChildren: 0.1,
+        ease: [0.25, 0.1, 0.25, 1.0],
+      },
+    },
+  };
+
+  const itemVariants: Variants = {
+    hidden: { opacity: 0, y: 30 },
+    visible: {
+      opacity: 1,
+      y: 0,
+      transition: {
+        duration: 0.8,
+        ease: [0.25, 0.1, 0.25, 1.0],
+      },
+    },
+  };
+
+  const details = [
+    ...(project.role ? [{ label: "Role", value: project.role }] : []),
+    { label: "Category", value: project.category },
+    { label: "Year", value: String(project.year) },
+  ];
+
+  return (
+    <main className="min-h-screen">
+      <CustomCursor />
+
+      <motion.article
+        className="section-spacing"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <div className="container-xl">
+          <motion.div variants={itemVariants}>
+            <Link
+              href="/#work"
+              className="meta-text text-foreground-secondary hover:text-foreground transition-colors duration-300 inline-flex items-center gap-2"
+            >
+              <ArrowLeft className="h-3.5 w-3.5" />
+              All work
+            </Link>
+          </motion.div>
+
+          <motion.h1
+            variants={itemVariants}
+            className="hero-title text-foreground mt-12"
+          >
+            {project.title}
+          </motion.h1>
+
+          <motion.p
+            variants={itemVariants}
+            className="body-text text-foreground-secondary max-w-2xl mt-6"
+          >
+            {project.description}
+          </motion.p>
+
+          {project.cover && (
+            <motion.div
+              variants={itemVariants}
+              className="relative aspect-video overflow-hidden rounded-lg border border-foreground/10 mt-16"
+            >
+              <Image
+                src={project.cover.src}
+                alt={project.cover.alt}
+                fill
+                priority
+                placeholder={project.cover.blurDataURL ? "blur" : "empty"}
+                blurDataURL={project.cover.blurDataURL}
+                sizes="(min-width: 1280px) 1280px, 100vw"
+                className="object-cover"
+              />
+            </motion.div>
+          )}
+
+          <motion.dl
+            variants={itemVariants}
+            className="grid grid-cols-2 md:grid-cols-4 gap-8 py-8 mt-16 border-y border-foreground/10"
+          >
+            {details.map((detail) => (
+              <div key={detail.label}>
+                <dt className="meta-text text-foreground-secondary">
+                  {detail.label}
+                </dt>
+                <dd className="body-text text-foreground mt-1">
+                  {detail.value}
+                </dd>
+              </div>
+            ))}
+            <div>
+              <dt className="meta-text text-foreground-secondary">Live</dt>
+              <dd className="body-text text-foreground mt-1">
+                {archived ? (
+                  <span className="text-foreground/40">
+                    No longer available
+                  </span>
+                ) : (
+                  <a
+                    href={project.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 hover:underline"
+                  >
+                    Visit
+                    <ArrowUpRight className="h-4 w-4" />
+                  </a>
+                )}
+              </dd>
+            </div>
+          </motion.dl>
+
+          {project.techStack && project.techStack.length > 0 && (
+            <motion.ul
+              variants={itemVariants}
+              className="flex flex-wrap gap-2 mt-8"
+              aria-label="Tech stack"
+            >
+              {project.techStack.map((tech) => (
+                <li
+                  key={tech}
+                  className="px-4 py-1.5 rounded-full meta-text text-xs text-foreground/80 border border-foreground/10"
+                >
+                  {tech}
+                </li>
+              ))}
+            </motion.ul>
+          )}
+
+          {project.sections?.map((section) => (
+            <motion.section
+              key={section.title}
+              variants={itemVariants}
+              className="mt-16 max-w-2xl"
+            >
+              <h2 className="section-title text-foreground mb-4">
+                {section.title}
+              </h2>
+              <p className="body-text text-foreground/80">{section.body}</p>
+            </motion.section>
+          ))}
+
+          {nextProject && nextProject.slug !== project.slug && (
+            <motion.div variants={itemVariants} className="mt-24">
+              <Link
+                href={`/work/${nextProject.slug}`}
+                className="group block py-8 border-t border-foreground/10"
+              >
+                <span className="meta-text text-foreground-secondary">
+                  Next project
+                </span>
+                <span className="project-title text-foreground/80 group-hover:text-foreground transition-colors duration-500 ease-out block mt-2">
+                  {nextProject.title}
+                </span>
+              </Link>
+            </motion.div>
+          )}
+        </div>
+      </motion.article>
+
+      <Footer />
+    </main>
+  );
+}
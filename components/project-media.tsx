@@ -0,0 +1,131 @@
+"use client";
+
+import {
+  AnimatePresence,
+  motion,
+  useMotionValue,
+  useSpring,
+} from "framer-motion";
+import Image from "next/image";
+import { useEffect } from "react";
+import { getProjectImages, type Project } from "@/lib/projects";
+
+// Neutral placeholder for images without their own `blurDataURL`
+const FALLBACK_BLUR =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGOQkpICAACgAE8sk/soAAAAAElFTkSuQmCC";
+
+// Offset from the pointer so the card never sits under it
+const PREVIEW_OFFSET = 24;
+
+export function hasProjectMedia(project: Project): boolean {
+  return project.video !== undefined || getProjectImages(project).length > 0;
+}
+
+function ProjectVideo({ project }: { project: Project }) {
+  if (!project.video) return null;
+  return (
+    <video
+      src={project.video.src}
+      poster={project.video.poster}
+      autoPlay
+      muted
+      loop
+      playsInline
+      preload="metadata"
+      aria-hidden="true"
+      className="absolute inset-0 h-full w-full object-cover"
+    />
+  );
+}
+
+// Desktop only: a card with the project's video or cover that trails the
+// pointer while a row is hovered.
+export function ProjectPreviewCard({ project }: { project: Project | null }) {
+  const x = useMotionValue(0);
+  const y = useMotionValue(0);
+  const springX = useSpring(x, { stiffness: 300, damping: 30 });
+  const springY = useSpring(y, { stiffness: 300, damping: 30 });
+
+  useEffect(() => {
+    const onMouseMove = (e: MouseEvent) => {
+      x.set(e.clientX + PREVIEW_OFFSET);
+      y.set(e.clientY + PREVIEW_OFFSET);
+    };
+    document.addEventListener("mousemove", onMouseMove);
+    return () => document.removeEventListener("mousemove", onMouseMove);
+  }, [x, y]);
+
+  const image = project ? getProjectImages(project)[0] : undefined;
+  const visible = project !== null && (project.video || image);
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <motion.div
+          key="preview"
+          className="fixed top-0 left-0 z-40 pointer-events-none"
+          style={{ x: springX, y: springY }}
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.9 }}
+          transition={{ duration: 0.25, ease: [0.25, 0.1, 0.25, 1.0] }}
+        >
+          <div className="relative w-80 aspect-video overflow-hidden rounded-lg border border-foreground/10 bg-white/5 shadow-2xl">
+            {project.video ? (
+              <ProjectVideo key={project.slug} project={project} />
+            ) : (
+              image && (
+                <Image
+                  key={image.src}
+                  src={image.src}
+                  alt=""
+                  fill
+                  sizes="320px"
+                  placeholder="blur"
+                  blurDataURL={image.blurDataURL ?? FALLBACK_BLUR}
+                  className="object-cover"
+                />
+              )
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+// Mobile: every clip and image in a swipeable row, lazily loaded as they
+// scroll into view.
+export function ProjectMediaCarousel({ project }: { project: Project }) {
+  const images = getProjectImages(project);
+  if (!project.video && images.length === 0) return null;
+
+  return (
+    <ul
+      className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-6 -mt-2"
+      aria-label={`${project.title} media`}
+    >
+      {project.video && (
+        <li className="relative shrink-0 w-4/5 aspect-video snap-start overflow-hidden rounded-lg border border-foreground/10 bg-white/5">
+          <ProjectVideo project={project} />
+        </li>
+      )}
+      {images.map((image) => (
+        <li
+          key={image.src}
+          className="relative shrink-0 w-4/5 aspect-video snap-start overflow-hidden rounded-lg border border-foreground/10 bg-white/5"
+        >
+          <Image
+            src={image.src}
+            alt={image.alt}
+            fill
+            sizes="80vw"
+            placeholder="blur"
+            blurDataURL={image.blurDataURL ?? FALLBACK_BLUR}
+            className="object-cover"
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,65 +1,133 @@
 "use client";
 
-import { motion, Variants } from "framer-motion";
-
-const projects = [
-  {
-    id: 0,
-    title: "Interactive Quotes",
-    category: "Web Design",
-    year: "2025",
-    description:
-      "A visually captivating quotes platform featuring dynamic color palettes and refined typography. Users can highlight passages, share personalized quote cards, and explore curated collections through intuitive interactions.",
-    link: "https://reveriee.vercel.app",
-  },
-  {
-    id: 1,
-    title: "cAI",
-    category: "AI/ML",
-    year: "2025",
-    description:
-      "An intelligent contract analysis tool that leverages machine learning to identify vulnerabilities in blockchain code. Helps developers build more secure and efficient smart contracts.",
-    link: "https://smartcai.framer.website",
-  },
-  {
-    id: 2,
-    title: "Caged Bird",
-    category: "Web App",
-    year: "2025",
-    description:
-      "A narrative puzzle experience with minimalist aesthetics and challenging gameplay. Players solve increasingly complex riddles to progress through a touching story of freedom.",
-    link: "https://cagedbird.vercel.app",
-  },
-  {
-    id: 3,
-    title: "WordLadderWar",
-    category: "Game Development",
-    year: "2025",
-    description:
-      "A fast-paced word transformation game that challenges linguistic creativity. Features real-time multiplayer, custom dictionaries, and an elegant interface that makes wordplay addictive.",
-    link: "https://word-ladder-war.vercel.app/",
-  },
-  {
-    id: 4,
-    title: "Enhanced Mobile Experience for Volvo",
-    category: "UX/UI Design",
-    year: "2024",
-    description:
-      "A comprehensive mobile interface redesign that connects drivers with their vehicles. Focuses on contextual awareness, personalized settings, and seamless integration with Volvo's ecosystem.",
-    link: "https://dribbble.com/shots/24589230-Enhanced-Mobile-Experience-for-Volvo",
-  },
-  {
-    id: 5,
-    title: "Weather App",
-    category: "Web App",
-    year: "2024",
-    description:
-      "A visually striking weather application with location-based forecasting and atmospheric data visualization. Features animated transitions and a responsive design that adapts to all devices.",
-    link: "https://weather-app-opal-nine-24.vercel.app",
-  },
-];
+import { AnimatePresence, motion, Variants } from "framer-motion";
+import { ArrowUpRight, ChevronDown, Star } from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  hasProjectMedia,
+  ProjectMediaCarousel,
+  ProjectPreviewCard,
+} from "@/components/project-media";
+import { useApiResource } from "@/hooks/use-api-resource";
+import { useArchivedProjects } from "@/hooks/use-archived-projects";
+import { useMobile } from "@/hooks/use-mobile";
+import type {
+  Cached,
+  GitHubRepositoriesData,
+  GitHubRepository,
+} from "@/lib/activity-types";
+import { getPillStyle } from "@/lib/pill-style";
+import {
+  filterProjects,
+  getProjectCategories,
+  PROJECT_SORTS,
+  type Project,
+  type ProjectFilter,
+  type ProjectSort,
+} from "@/lib/projects";
+
+const SORT_LABELS: Record<ProjectSort, string> = {
+  featured: "Featured",
+  newest: "Newest",
+  oldest: "Oldest",
+};
+
+const DEFAULT_FILTER: ProjectFilter = {
+  category: null,
+  query: "",
+  sort: "featured",
+};
+
+// `?category=`, `?q=` and `?sort=`, so a filtered list can be shared
+function readFilter(search: string): ProjectFilter {
+  const params = new URLSearchParams(search);
+  const category = params.get("category");
+  const sort = params.get("sort");
+  return {
+    category:
+      category && getProjectCategories().includes(category) ? category : null,
+    query: params.get("q") ?? "",
+    sort: (PROJECT_SORTS as readonly string[]).includes(sort ?? "")
+      ? (sort as ProjectSort)
+      : DEFAULT_FILTER.sort,
+  };
+}
+
+function writeFilter(filter: ProjectFilter) {
+  const params = new URLSearchParams(window.location.search);
+  const set = (key: string, value: string | null) =>
+    value ? params.set(key, value) : params.delete(key);
+  set("category", filter.category);
+  set("q", filter.query.trim() || null);
+  set("sort", filter.sort === DEFAULT_FILTER.sort ? null : filter.sort);
+
+  const query = params.toString();
+  window.history.replaceState(
+    null,
+    "",
+    `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`,
+  );
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return `${hostname.replace(/^www\./, "")}${pathname.replace(/\/$/, "")}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+function findRepository(
+  project: Project,
+  repositories: GitHubRepository[],
+): GitHubRepository | undefined {
+  if (project.repo) {
+    const repo = project.repo.toLowerCase();
+    return repositories.find((r) => r.nameWithOwner.toLowerCase() === repo);
+  }
+
+  const link = normalizeUrl(project.link);
+  return repositories.find(
+    (r) => r.homepageUrl !== null && normalizeUrl(r.homepageUrl) === link,
+  );
+}
 
 export function WorkSection() {
+  const [filter, setFilter] = useState<ProjectFilter>(DEFAULT_FILTER);
+  const [expandedSlug, setExpandedSlug] = useState<string | null>(null);
+  const [hoveredProject, setHoveredProject] = useState<Project | null>(null);
+  const isMobile = useMobile();
+
+  // The page is prerendered, so the URL is only read once mounted
+  useEffect(() => {
+    setFilter(readFilter(window.location.search));
+  }, []);
+
+  const updateFilter = (patch: Partial<ProjectFilter>) => {
+    const next = { ...filter, ...patch };
+    setFilter(next);
+    setHoveredProject(null);
+    writeFilter(next);
+  };
+
+  // One row open at a time; opening another closes the current one
+  const toggleProject = (slug: string) =>
+    setExpandedSlug((current) => (current === slug ? null : slug));
+
+  const categories = getProjectCategories();
+  const visibleProjects = filterProjects(filter);
+
+  // Live repo stats are decoration on top of the curated list, so failures
+  // are ignored. Demo repos would pin invented stars on real projects.
+  const { data } =
+    useApiResource<Cached<GitHubRepositoriesData>>("/api/github/repos");
+  const repositories: GitHubRepository[] =
+    data && data.source !== "demo" ? [...data.pinned, ...data.recent] : [];
+
+  const isArchived = useArchivedProjects();
+
   const containerVariants: Variants = {
     hidden: { opacity: 0 },
     visible: {
@@ -104,49 +172,214 @@ export function WorkSection() {
           initial="hidden"
           whileInView="visible"
           viewport={{ once: true, margin: "-100px" }}
-          className="section-title mb-24"
+          className="section-title mb-12"
         >
           Selected Work
         </motion.h2>
 
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true }}
+          transition={{ delay: 0.2, duration: 0.6 }}
+          className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-12"
+        >
+          <div
+            className="flex flex-wrap gap-2"
+            role="group"
+            aria-label="Filter by category"
+          >
+            {[null, ...categories].map((category) => (
+              <button
+                key={category ?? "all"}
+                onClick={() => updateFilter({ category })}
+                aria-pressed={filter.category === category}
+                className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300 cursor-pointer"
+                style={getPillStyle(filter.category === category)}
+              >
+                {category ?? "All"}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="search"
+              value={filter.query}
+              onChange={(e) => updateFilter({ query: e.target.value })}
+              placeholder="Search"
+              aria-label="Search projects"
+              className="px-3 py-1.5 rounded-md meta-text text-xs text-foreground/80 bg-white/5 border border-white/10 w-full md:w-48"
+            />
+            <select
+              value={filter.sort}
+              onChange={(e) =>
+                updateFilter({ sort: e.target.value as ProjectSort })
+              }
+              aria-label="Sort projects"
+              className="px-3 py-1.5 rounded-md meta-text text-xs text-foreground/80 bg-white/5 border border-white/10 [color-scheme:dark] cursor-pointer"
+            >
+              {PROJECT_SORTS.map((sort) => (
+                <option key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </motion.div>
+
         <motion.div
           variants={containerVariants}
           initial="hidden"
           whileInView="visible"
           viewport={{ once: true, margin: "-100px" }}
         >
-          {projects.map((project) => (
-            <motion.div key={project.id} variants={itemVariants}>
-              <a
-                href={project.link}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="group block py-8 border-t border-foreground/10 transition-all duration-500 ease-out"
-              >
-                <div className="flex items-center justify-between">
-                  <h3 className="project-title text-foreground/80 group-hover:text-foreground transition-colors duration-500 ease-out">
-                    {project.title}
+          <AnimatePresence mode="popLayout">
+            {visibleProjects.map((project) => {
+              const repository = findRepository(project, repositories);
+              const expanded = expandedSlug === project.slug;
+              const archived = isArchived(project);
+              return (
+                <motion.div
+                  key={project.slug}
+                  layout
+                  variants={itemVariants}
+                  exit={{ opacity: 0, transition: { duration: 0.3 } }}
+                  onMouseEnter={() =>
+                    hasProjectMedia(project) && setHoveredProject(project)
+                  }
+                  onMouseLeave={() => setHoveredProject(null)}
+                >
+                  <h3 className="border-t border-foreground/10">
+                    <button
+                      id={`project-${project.slug}`}
+                      onClick={() => toggleProject(project.slug)}
+                      aria-expanded={expanded}
+                      aria-controls={`project-${project.slug}-details`}
+                      className="group w-full py-8 flex items-center justify-between gap-4 text-left cursor-pointer"
+                    >
+                      <span
+                        className={`project-title group-hover:text-foreground transition-colors duration-500 ease-out ${expanded ? "text-foreground" : "text-foreground/80"}`}
+                      >
+                        {project.title}
+                      </span>
+                      <span className="meta-text text-foreground-secondary flex items-center gap-4 shrink-0">
+                        {repository?.language && (
+                          <span className="hidden sm:flex items-center gap-1.5">
+                            <span
+                              className="w-2 h-2 rounded-full"
+                              style={{
+                                backgroundColor:
+                                  repository.languageColor ??
+                                  "rgba(255, 255, 255, 0.2)",
+                              }}
+                            />
+                            {repository.language}
+                          </span>
+                        )}
+                        {repository && repository.stars > 0 && (
+                          <span
+                            className="flex items-center gap-1"
+                            aria-label={`${repository.stars} GitHub stars`}
+                          >
+                            <Star className="h-3 w-3" />
+                            {repository.stars.toLocaleString()}
+                          </span>
+                        )}
+                        {archived && (
+                          <span
+                            className="px-2 py-0.5 rounded-full text-[10px] uppercase tracking-wider"
+                            style={getPillStyle(false)}
+                          >
+                            Archived
+                          </span>
+                        )}
+                        <span className="hidden md:inline">
+                          {project.category}
+                        </span>
+                        <span>{project.year}</span>
+                        <ChevronDown
+                          className={`h-4 w-4 transition-transform duration-300 ${expanded ? "rotate-180" : ""}`}
+                          aria-hidden="true"
+                        />
+                      </span>
+                    </button>
                   </h3>
-                  <div className="meta-text text-foreground-secondary">
-                    {project.year}
-                  </div>
-                </div>
-
-                {/* Project description that appears on hover */}
-                <div className="max-h-0 overflow-hidden group-hover:max-h-20 transition-all duration-500 ease-out">
-                  <p className="project-description text-foreground-secondary max-w-2xl pt-4 opacity-0 group-hover:opacity-100 transition-opacity duration-500 delay-100 ease-out">
-                    {project.description}
-                  </p>
-                </div>
-              </a>
-            </motion.div>
-          ))}
+
+                  <AnimatePresence initial={false}>
+                    {expanded && (
+                      <motion.div
+                        id={`project-${project.slug}-details`}
+                        role="region"
+                        aria-labelledby={`project-${project.slug}`}
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: "auto", opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{
+                          duration: 0.4,
+                          ease: [0.25, 0.1, 0.25, 1.0],
+                        }}
+                        className="overflow-hidden"
+                      >
+                        <div className="pb-8">
+                          <p className="project-description text-foreground-secondary max-w-2xl">
+                            {project.description}
+                          </p>
+                          <div className="md:hidden mt-6">
+                            <ProjectMediaCarousel project={project} />
+                          </div>
+                          <div className="flex flex-wrap gap-2 mt-6">
+                            <Link
+                              href={`/work/${project.slug}`}
+                              className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300"
+                              style={getPillStyle(true)}
+                            >
+                              Case study
+                            </Link>
+                            {archived ? (
+                              <span className="px-4 py-1.5 meta-text text-xs text-foreground/40">
+                                Live site no longer available
+                              </span>
+                            ) : (
+                              <a
+                                href={project.link}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="px-4 py-1.5 rounded-full meta-text text-xs transition-all duration-300 inline-flex items-center gap-1"
+                                style={getPillStyle(false)}
+                              >
+                                Visit
+                                <ArrowUpRight
+                                  className="h-3 w-3"
+                                  aria-hidden="true"
+                                />
+                                <span className="sr-only">
+                                  {project.title} (opens in a new tab)
+                                </span>
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+          {visibleProjects.length === 0 && (
+            <p className="body-text text-foreground/40 py-10 text-center border-t border-foreground/10">
+              No projects match these filters.
+            </p>
+          )}
           <motion.div
+            layout
             variants={itemVariants}
             className="border-t border-foreground/10 mt-0"
           ></motion.div>
         </motion.div>
       </div>
+      <ProjectPreviewCard project={isMobile ? null : hoveredProject} />
     </section>
   );
 }
@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchApi, toApiErrorInfo, type ApiErrorInfo } from "@/lib/api-client";
+
+// Responses younger than this are served without asking the server again
+const FRESH_FOR_MS = 5 * 60 * 1000;
+
+// Last good response per URL, shared by every component on the page
+const responses = new Map<string, { data: unknown; fetchedAt: number }>();
+
+function getCached<T>(url: string): T | null {
+  return (responses.get(url)?.data as T | undefined) ?? null;
+}
+
+function isFresh(url: string): boolean {
+  const entry = responses.get(url);
+  return entry !== undefined && Date.now() - entry.fetchedAt < FRESH_FOR_MS;
+}
+
+// One request per URL at a time. It's aborted once nobody is waiting on it.
+const inFlight = new Map<
+  string,
+  { promise: Promise<unknown>; controller: AbortController; waiting: number }
+>();
+
+function request<T>(url: string) {
+  let entry = inFlight.get(url);
+  if (!entry) {
+    const controller = new AbortController();
+    const promise = fetchApi<T>(url, { signal: controller.signal })
+      .then((data) => {
+        responses.set(url, { data, fetchedAt: Date.now() });
+        return data;
+      })
+      .finally(() => {
+        if (inFlight.get(url) === created) inFlight.delete(url);
+      });
+    const created = { promise, controller, waiting: 0 };
+    entry = created;
+    inFlight.set(url, created);
+  }
+
+  const current = entry;
+  current.waiting++;
+  return {
+    promise: current.promise as Promise<T>,
+    release() {
+      current.waiting--;
+      if (current.waiting === 0 && inFlight.get(url) === current) {
+        current.controller.abort();
+        inFlight.delete(url);
+      }
+    },
+  };
+}
+
+// Warms the cache for a URL the visitor is likely to ask for next (e.g. on
+// hover). Failures are dropped; the hook retries when the URL is really used.
+export function prefetchApiResource(url: string) {
+  if (isFresh(url) || inFlight.has(url)) return;
+  request(url).promise.catch(() => {});
+}
+
+interface ApiResourceState<T> {
+  data: T | null;
+  error: ApiErrorInfo | null;
+  loading: boolean; // a request is in flight, even if `data` is shown
+}
+
+// Fetches one of the app's API routes. Changing `url` aborts the previous
+// request, so a slow response can never overwrite a newer one. While a new URL
+// loads, its cached response (or, failing that, the previous URL's data) stays
+// visible, and a response under five minutes old is reused without a request.
+// Pass null to skip fetching.
+export function useApiResource<T>(url: string | null) {
+  const [state, setState] = useState<ApiResourceState<T>>(() => ({
+    data: url ? getCached<T>(url) : null,
+    error: null,
+    loading: url !== null && !isFresh(url),
+  }));
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!url) {
+      setState((prev) => ({ ...prev, loading: false }));
+      return;
+    }
+
+    const cached = getCached<T>(url);
+    if (cached !== null && isFresh(url)) {
+      setState({ data: cached, error: null, loading: false });
+      return;
+    }
+
+    setState((prev) => ({
+      data: cached ?? prev.data,
+      error: null,
+      loading: true,
+    }));
+
+    let active = true;
+    const { promise, release } = request<T>(url);
+    promise
+      .then((data) => {
+        if (active) setState({ data, error: null, loading: false });
+      })
+      .catch((error) => {
+        // Keep this URL's own last good data, never another URL's
+        if (active) {
+          setState({
+            data: cached,
+            error: toApiErrorInfo(error),
+            loading: false,
+          });
+        }
+      });
+
+    return () => {
+      active = false;
+      release();
+    };
+  }, [url, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { ...state, retry };
+}
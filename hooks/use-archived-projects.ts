@@ -0,0 +1,21 @@
+"use client";
+
+import { useApiResource } from "@/hooks/use-api-resource";
+import type { Cached } from "@/lib/activity-types";
+import type { LinkReport } from "@/lib/link-health";
+import type { Project } from "@/lib/projects";
+
+// Returns whether a project should be shown as archived: marked `archived` in
+// its content file, or its live link answered as gone (404, 410 or a redirect
+// loop). Outages and network errors never archive a project.
+export function useArchivedProjects() {
+  const { data: linkReport } =
+    useApiResource<Cached<LinkReport>>("/api/links/status");
+
+  return (project: Project) =>
+    project.archived === true ||
+    (linkReport?.links.some(
+      (link) => link.source === `project:${project.slug}` && link.gone,
+    ) ??
+      false);
+}
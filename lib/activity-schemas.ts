@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { GitHubContributionCalendar } from "@/lib/activity-types";
+import { ProviderError } from "@/lib/provider-error";
+
+// Runtime checks for upstream payloads. Where a schema's output is returned
+// as-is, an annotation keeps it in lockstep with the shared response types.
+
+export const gitHubCalendarSchema: z.ZodType<GitHubContributionCalendar> =
+  z.object({
+    totalContributions: z.number(),
+    weeks: z.array(
+      z.object({
+        contributionDays: z.array(
+          z.object({
+            contributionCount: z.number(),
+            date: z.string(),
+            color: z.string(),
+            weekday: z.number(),
+          }),
+        ),
+      }),
+    ),
+  });
+
+// Requested alongside every GraphQL query to track the point budget
+export const gitHubRateLimitSchema = z.object({
+  rateLimit: z
+    .object({
+      limit: z.number(),
+      remaining: z.number(),
+      resetAt: z.string(),
+    })
+    .nullish(),
+});
+
+const gitHubCommitContributionsSchema = z.array(
+  z.object({
+    repository: z.object({
+      nameWithOwner: z.string(),
+      url: z.string(),
+      primaryLanguage: z
+        .object({ name: z.string(), color: z.string().nullable() })
+        .nullable(),
+    }),
+    contributions: z.object({ totalCount: z.number() }),
+  }),
+);
+
+export type GitHubCommitContributionNode = z.infer<
+  typeof gitHubCommitContributionsSchema
+>[number];
+
+export const gitHubContributionCalendarResponseSchema = z.object({
+  user: z.object({
+    contributionsCollection: z.object({
+      contributionYears: z.array(z.number()),
+      totalCommitContributions: z.number(),
+      totalPullRequestContributions: z.number(),
+      totalIssueContributions: z.number(),
+      totalPullRequestReviewContributions: z.number(),
+      commitContributionsByRepository: gitHubCommitContributionsSchema,
+      contributionCalendar: gitHubCalendarSchema,
+    }),
+  }),
+});
+
+const gitHubContributionItemSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  number: z.number(),
+  repository: z.object({ nameWithOwner: z.string() }),
+});
+
+export type GitHubContributionItemNode = z.infer<
+  typeof gitHubContributionItemSchema
+>;
+
+export const gitHubContributionDayResponseSchema = z.object({
+  user: z.object({
+    contributionsCollection: z.object({
+      commitContributionsByRepository: gitHubCommitContributionsSchema,
+      pullRequestContributions: z.object({
+        nodes: z.array(z.object({ pullRequest: gitHubContributionItemSchema })),
+      }),
+      issueContributions: z.object({
+        nodes: z.array(z.object({ issue: gitHubContributionItemSchema })),
+      }),
+    }),
+  }),
+});
+
+const gitHubRepositoryNodeSchema = z.object({
+  name: z.string(),
+  nameWithOwner: z.string(),
+  url: z.string(),
+  description: z.string().nullable(),
+  homepageUrl: z.string().nullable(),
+  stargazerCount: z.number(),
+  forkCount: z.number(),
+  pushedAt: z.string().nullable(),
+  primaryLanguage: z
+    .object({ name: z.string(), color: z.string().nullable() })
+    .nullable(),
+  repositoryTopics: z.object({
+    nodes: z.array(z.object({ topic: z.object({ name: z.string() }) })),
+  }),
+});
+
+export type GitHubRepositoryNode = z.infer<typeof gitHubRepositoryNodeSchema>;
+
+export const gitHubRepositoriesResponseSchema = z.object({
+  user: z.object({
+    // Pinned items can be gists too; those come back as empty objects
+    pinnedItems: z.object({
+      nodes: z.array(z.union([gitHubRepositoryNodeSchema, z.object({})])),
+    }),
+    repositories: z.object({
+      nodes: z.array(gitHubRepositoryNodeSchema),
+    }),
+  }),
+});
+
+const hackatimeStatItemSchema = z.object({
+  name: z.string(),
+  total_seconds: z.number(),
+  percent: z.number().optional(),
+  text: z.string().optional(),
+  color: z.string().optional(),
+});
+
+export type HackatimeStatItemNode = z.infer<typeof hackatimeStatItemSchema>;
+
+// Breakdowns are optional upstream (hidden by privacy settings or not
+// requested), so each defaults to an empty list.
+export const hackatimeStatsResponseSchema = z.object({
+  total_seconds: z.number(),
+  daily_average: z.number().default(0),
+  languages: z.array(hackatimeStatItemSchema).default([]),
+  editors: z.array(hackatimeStatItemSchema).default([]),
+  operating_systems: z.array(hackatimeStatItemSchema).default([]),
+  projects: z.array(hackatimeStatItemSchema).default([]),
+  machines: z.array(hackatimeStatItemSchema).default([]),
+  human_readable_total: z.string().optional(),
+  human_readable_daily_average: z.string().optional(),
+  human_readable_range: z.string().optional(),
+  streak: z.number().optional(),
+  start: z.string().optional(),
+});
+
+export const hackatimeSpansResponseSchema = z.object({
+  spans: z.array(
+    z.object({
+      start_time: z.number(), // epoch seconds
+      end_time: z.number(),
+      duration: z.number(), // seconds
+    }),
+  ),
+});
+
+// Validates an upstream payload, reporting a mismatch as `bad_payload` with
+// the first failing path so the log points at what changed upstream.
+export function parseUpstream<T>(
+  provider: string,
+  schema: z.ZodType<T>,
+  data: unknown,
+): T {
+  const result = schema.safeParse(data);
+
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ProviderError(
+      "bad_payload",
+      `${provider} returned an unexpected payload at "${issue.path.join(".")}": ${issue.message}`,
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,63 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { NextResponse } from "next/server";
+import type { ActivitySource, CacheMeta } from "@/lib/activity-types";
+
+// Recorded route responses for deployments without provider credentials.
+// `pnpm snapshot` writes SNAPSHOT_FILE from live data; DEMO_FILE is the same
+// format generated from `fixtures/` and ships with the repo.
+
+export const SNAPSHOT_FILE = "data/activity-snapshot.json";
+export const DEMO_FILE = "data/activity-demo.json";
+
+export interface ActivitySnapshot {
+  createdAt: string; // ISO
+  responses: Record<string, object>; // keyed by snapshotKey()
+}
+
+const SOURCES: { source: ActivitySource; file: string }[] = [
+  { source: "snapshot", file: SNAPSHOT_FILE },
+  { source: "demo", file: DEMO_FILE },
+];
+
+// Route path plus sorted query, e.g. `/api/hackatime?range=last_year`. The
+// visitor's `tz` is dropped, since a snapshot is recorded in one zone.
+export function snapshotKey(url: URL): string {
+  const params = [...url.searchParams]
+    .filter(([name]) => name !== "tz")
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  return query ? `${url.pathname}?${query}` : url.pathname;
+}
+
+async function loadSnapshot(file: string): Promise<ActivitySnapshot | null> {
+  try {
+    const data = await readFile(path.join(process.cwd(), file), "utf8");
+    return JSON.parse(data) as ActivitySnapshot;
+  } catch {
+    return null;
+  }
+}
+
+// The recorded response for this request, from the snapshot if there is one
+// and the demo dataset otherwise. Null when neither has it.
+export async function snapshotResponse(
+  request: Request,
+): Promise<NextResponse | null> {
+  const key = snapshotKey(new URL(request.url));
+
+  for (const { source, file } of SOURCES) {
+    const snapshot = await loadSnapshot(file);
+    const body = snapshot?.responses[key];
+    if (snapshot && body) {
+      const meta: CacheMeta = {
+        stale: true,
+        fetchedAt: snapshot.createdAt,
+        source,
+      };
+      return NextResponse.json({ ...body, ...meta });
+    }
+  }
+
+  return null;
+}
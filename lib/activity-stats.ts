@@ -0,0 +1,98 @@
+import { summarizeByMonth, type HeatmapDatum } from "@/lib/heatmap";
+
+// Streak and consistency figures for a daily activity series (contribution
+// counts or coding seconds), computed client-side from the loaded calendar.
+
+export interface Streak {
+  length: number;
+  start: string; // YYYY-MM-DD
+  end: string;
+}
+
+export interface ActivityStats {
+  currentStreak: Streak | null;
+  longestStreak: Streak | null;
+  busiestWeekday: { weekday: string; total: number } | null;
+  busiestMonth: { label: string; total: number } | null;
+  activeDays: number;
+  activeDayPercent: number;
+  averagePerActiveDay: number;
+}
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// `today` is the viewer's date. A zero on that day doesn't break the current
+// streak yet, since the day isn't over; the streak then ends yesterday.
+export function computeActivityStats(
+  days: HeatmapDatum[],
+  today: string,
+): ActivityStats {
+  let longestStreak: Streak | null = null;
+  let runStart = -1;
+
+  for (let i = 0; i < days.length; i++) {
+    if (days[i].value <= 0) {
+      runStart = -1;
+      continue;
+    }
+    if (runStart === -1) runStart = i;
+    const length = i - runStart + 1;
+    if (!longestStreak || length > longestStreak.length) {
+      longestStreak = { length, start: days[runStart].date, end: days[i].date };
+    }
+  }
+
+  let last = days.length - 1;
+  if (last >= 0 && days[last].date === today && days[last].value <= 0) last--;
+  let first = last;
+  while (first >= 0 && days[first].value > 0) first--;
+  const currentStreak: Streak | null =
+    last > first
+      ? {
+          length: last - first,
+          start: days[first + 1].date,
+          end: days[last].date,
+        }
+      : null;
+
+  const weekdayTotals = Array(7).fill(0);
+  for (const day of days) {
+    weekdayTotals[new Date(day.date + "T00:00:00").getDay()] += day.value;
+  }
+  const busiestWeekdayIndex = weekdayTotals.indexOf(Math.max(...weekdayTotals));
+
+  const busiestMonth = summarizeByMonth(days).reduce<{
+    label: string;
+    total: number;
+  } | null>(
+    (best, month) => (!best || month.total > best.total ? month : best),
+    null,
+  );
+
+  const activeDays = days.filter((day) => day.value > 0).length;
+  const total = days.reduce((sum, day) => sum + day.value, 0);
+
+  return {
+    currentStreak,
+    longestStreak,
+    busiestWeekday:
+      total > 0
+        ? {
+            weekday: WEEKDAY_NAMES[busiestWeekdayIndex],
+            total: weekdayTotals[busiestWeekdayIndex],
+          }
+        : null,
+    busiestMonth: total > 0 ? busiestMonth : null,
+    activeDays,
+    activeDayPercent: days.length > 0 ? (activeDays / days.length) * 100 : 0,
+    averagePerActiveDay: activeDays > 0 ? total / activeDays : 0,
+  };
+}
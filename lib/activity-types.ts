@@ -0,0 +1,209 @@
+// Response shapes shared by the activity API routes and the components that
+// consume them. Keep these in sync with what the routes actually return.
+
+// --- GitHub ---
+
+export interface GitHubContributionDay {
+  contributionCount: number;
+  date: string;
+  color: string;
+  weekday: number;
+}
+
+export interface GitHubContributionWeek {
+  contributionDays: GitHubContributionDay[];
+}
+
+export interface GitHubContributionCalendar {
+  totalContributions: number;
+  weeks: GitHubContributionWeek[];
+}
+
+export interface GitHubContributionBreakdown {
+  commits: number;
+  pullRequests: number;
+  issues: number;
+  reviews: number;
+}
+
+export interface GitHubRepositoryContributions {
+  nameWithOwner: string;
+  url: string;
+  language: string | null;
+  languageColor: string | null;
+  commits: number;
+}
+
+// `/api/github`
+export interface GitHubData extends GitHubContributionCalendar {
+  contributionYears: number[]; // newest first
+  breakdown: GitHubContributionBreakdown;
+  topRepositories: GitHubRepositoryContributions[]; // most commits first
+}
+
+export interface GitHubYearTotal {
+  year: number;
+  totalContributions: number;
+}
+
+// `/api/github?view=lifetime`
+export interface GitHubLifetimeSummary {
+  totalContributions: number;
+  years: GitHubYearTotal[]; // newest first
+  bestYear: GitHubYearTotal | null;
+  bestDay: { date: string; contributionCount: number } | null;
+}
+
+export interface GitHubRepository {
+  name: string;
+  nameWithOwner: string;
+  url: string;
+  description: string | null;
+  homepageUrl: string | null;
+  stars: number;
+  forks: number;
+  language: string | null;
+  languageColor: string | null;
+  topics: string[];
+  pushedAt: string | null;
+}
+
+// `/api/github/repos`
+export interface GitHubRepositoriesData {
+  pinned: GitHubRepository[]; // profile order
+  recent: GitHubRepository[]; // most recently pushed first
+}
+
+// A pull request or issue opened on a given day
+export interface GitHubContributionItem {
+  title: string;
+  url: string;
+  number: number;
+  repository: string; // nameWithOwner
+}
+
+// `/api/github/day`
+export interface GitHubDayData {
+  date: string; // YYYY-MM-DD, UTC
+  commits: GitHubRepositoryContributions[]; // most commits first
+  pullRequests: GitHubContributionItem[];
+  issues: GitHubContributionItem[];
+}
+
+// --- Hackatime ---
+
+// One row of a Hackatime breakdown. The routes return the top entries by
+// time plus a single "Other" row for the rest.
+export interface HackatimeStatItem {
+  name: string;
+  total_seconds: number;
+  percent: number;
+  text: string;
+  color?: string;
+}
+
+export type HackatimeLanguage = HackatimeStatItem;
+
+export type HackatimeBreakdownKey =
+  "languages" | "editors" | "operating_systems" | "projects" | "machines";
+
+export interface HackatimeData extends Record<
+  HackatimeBreakdownKey,
+  HackatimeStatItem[]
+> {
+  total_seconds: number;
+  daily_average: number;
+  human_readable_total?: string;
+  human_readable_daily_average?: string;
+  human_readable_range?: string;
+  streak?: number;
+  start?: string;
+}
+
+export interface HackatimeDay {
+  date: string; // YYYY-MM-DD in `time_zone`
+  total_seconds: number;
+}
+
+// `/api/hackatime/daily`
+export interface HackatimeDailyData {
+  start_date: string;
+  end_date: string;
+  time_zone: string;
+  total_seconds: number;
+  days: HackatimeDay[]; // every date in the range, oldest first
+}
+
+// --- Caching ---
+
+// Where a response came from when credentials are missing: the committed
+// `pnpm snapshot` output, or the bundled demo dataset.
+export type ActivitySource = "snapshot" | "demo";
+
+// Added to every successful provider response. `stale` is set when the data
+// is older than the cache's freshness window, e.g. because the upstream is
+// failing and we're serving the last good snapshot.
+export interface CacheMeta {
+  stale: boolean;
+  fetchedAt: string; // ISO timestamp of the upstream fetch
+  source?: ActivitySource; // absent for live data
+}
+
+export type Cached<T> = T & CacheMeta;
+
+// --- Health ---
+
+// Upstream quota as last reported by the provider; nulls until it has been
+// called (Hackatime doesn't report one).
+export interface ProviderQuota {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string | null; // ISO
+  exhausted: boolean; // calls are being refused until `retryAfter`
+  retryAfter: number | null; // seconds
+}
+
+// `down` when the latest request failed (other than on quota), `degraded`
+// when it was refused for quota, `unknown` before any request this process.
+export type ProviderStatus =
+  "ok" | "degraded" | "down" | "not_configured" | "unknown";
+
+export interface ProviderHealth {
+  status: ProviderStatus;
+  configured: boolean;
+  required: boolean; // a broken required provider fails the health check
+  lastSuccessAt: string | null; // ISO
+  lastError: { code: ApiErrorCode; message: string; at: string } | null;
+  latencyMs: number | null; // of the latest upstream request
+  cacheAge: number | null; // seconds, of the data last served
+  quota: ProviderQuota;
+}
+
+// `/api/health`, 503 when a required provider is down or not configured
+export interface HealthData {
+  status: "ok" | "degraded" | "down";
+  checkedAt: string; // ISO
+  providers: {
+    github: ProviderHealth;
+    hackatime: ProviderHealth;
+  };
+}
+
+// --- Errors ---
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "not_configured"
+  | "upstream_unavailable"
+  | "rate_limited"
+  | "bad_payload";
+
+// Body of every non-2xx response from the activity routes.
+export interface ApiErrorResponse {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    upstreamStatus: number | null;
+    retryAfter: number | null; // seconds
+  };
+}
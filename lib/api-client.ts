@@ -0,0 +1,86 @@
+import type { ApiErrorCode, ApiErrorResponse } from "@/lib/activity-types";
+
+export type ApiErrorInfo = ApiErrorResponse["error"];
+
+export class ApiRequestError extends Error {
+  readonly info: ApiErrorInfo;
+
+  constructor(info: ApiErrorInfo) {
+    super(info.message);
+    this.name = "ApiRequestError";
+    this.info = info;
+  }
+}
+
+function isErrorResponse(body: unknown): body is ApiErrorResponse {
+  const error = (body as ApiErrorResponse | null)?.error;
+  return typeof error === "object" && error !== null && "code" in error;
+}
+
+// Fetches one of the app's own API routes, unwrapping the error envelope into
+// an ApiRequestError. Bodies that don't follow the envelope (network failures,
+// platform error pages) are reported as `upstream_unavailable`.
+export async function fetchApi<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new ApiRequestError({
+      code: "upstream_unavailable",
+      message: "Network request failed",
+      upstreamStatus: null,
+      retryAfter: null,
+    });
+  }
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    if (isErrorResponse(body)) throw new ApiRequestError(body.error);
+
+    const code: ApiErrorCode =
+      response.status === 429 ? "rate_limited" : "upstream_unavailable";
+    throw new ApiRequestError({
+      code,
+      message: `Request failed with ${response.status}`,
+      upstreamStatus: response.status,
+      retryAfter: null,
+    });
+  }
+
+  return body as T;
+}
+
+export function toApiErrorInfo(error: unknown): ApiErrorInfo {
+  if (error instanceof ApiRequestError) return error.info;
+
+  return {
+    code: "upstream_unavailable",
+    message: error instanceof Error ? error.message : "Request failed",
+    upstreamStatus: null,
+    retryAfter: null,
+  };
+}
+
+// One-line, visitor-facing explanation of a failed request to `source`.
+export function describeApiError(source: string, error: ApiErrorInfo): string {
+  switch (error.code) {
+    case "not_configured":
+      return `${source} isn't configured for this deployment.`;
+    case "rate_limited": {
+      const minutes = error.retryAfter
+        ? Math.max(1, Math.ceil(error.retryAfter / 60))
+        : null;
+      return minutes
+        ? `${source} rate limit reached. Try again in ${minutes} min.`
+        : `${source} rate limit reached. Try again later.`;
+    }
+    case "bad_payload":
+      return `${source} returned data we couldn't read.`;
+    case "bad_request":
+      return `${source} couldn't handle that request: ${error.message}`;
+    case "upstream_unavailable":
+    default:
+      return `${source} is unavailable right now.`;
+  }
+}
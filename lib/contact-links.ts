@@ -0,0 +1,7 @@
+// Profiles linked from the "Across the Web" section. Kept here so the link
+// checker sees the same URLs the page renders.
+export const CONTACT_LINKS = {
+  linkedin: "https://www.linkedin.com/in/shyam-sai-teja-235054253",
+  github: "https://github.com/Shyamsaitejamandibi",
+  peerlist: "https://peerlist.io/shyamsaiteja",
+};
@@ -0,0 +1,111 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+// The subset of `fetch` the provider clients rely on. Anything matching this
+// signature can be injected, which is how the routes run against recorded
+// fixtures instead of the network.
+export type FetchAdapter = (
+  input: string,
+  init?: RequestInit,
+) => Promise<Response>;
+
+const FIXTURE_PROVIDERS: Record<string, string> = {
+  "api.github.com": "github",
+  "hackatime.hackclub.com": "hackatime",
+};
+
+// Maps a request to the `<provider>/<name>.json` files that may answer it,
+// most specific first. GraphQL requests share one URL, so they are keyed by
+// operation name, and a `$from` variable selects a window-specific file
+// (`ContributionCalendar.2024-01-01.json`) before the generic one; REST
+// requests are keyed by their last path segment.
+function fixturePaths(input: string, init?: RequestInit): string[] {
+  const url = new URL(input);
+  const provider = FIXTURE_PROVIDERS[url.hostname] ?? url.hostname;
+
+  if (url.pathname.endsWith("/graphql") && typeof init?.body === "string") {
+    const { query, variables } = JSON.parse(init.body) as {
+      query?: string;
+      variables?: { from?: unknown };
+    };
+    const operation = query?.match(/query\s+(\w+)/)?.[1];
+    if (operation) {
+      const from = variables?.from;
+      return [
+        ...(typeof from === "string"
+          ? [path.join(provider, `${operation}.${from.slice(0, 10)}.json`)]
+          : []),
+        path.join(provider, `${operation}.json`),
+      ];
+    }
+  }
+
+  const segment = url.pathname.split("/").filter(Boolean).pop() ?? "index";
+  return [path.join(provider, `${segment}.json`)];
+}
+
+export function createFixtureFetch(dir: string): FetchAdapter {
+  return async (input, init) => {
+    const files = fixturePaths(input, init).map((file) => path.join(dir, file));
+
+    for (const file of files) {
+      try {
+        const body = await readFile(file, "utf8");
+        return new Response(body, {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch {
+        // Try the next, less specific fixture
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ error: `No fixture at ${files.join(" or ")}` }),
+      {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  };
+}
+
+// Set ACTIVITY_FIXTURES_DIR to serve every provider request from disk
+// (e.g. `ACTIVITY_FIXTURES_DIR=fixtures pnpm dev`).
+export function getFetchAdapter(): FetchAdapter {
+  const fixturesDir = process.env.ACTIVITY_FIXTURES_DIR;
+  if (fixturesDir) {
+    return createFixtureFetch(path.resolve(process.cwd(), fixturesDir));
+  }
+  return (input, init) => fetch(input, init);
+}
+
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+// Wraps an adapter so network errors and transient 5xx responses are retried
+// with exponential backoff and full jitter. Anything else (including 4xx and
+// rate limits) comes back on the first attempt.
+export function withRetry(
+  fetch: FetchAdapter,
+  { retries = 2, baseDelayMs = 300 }: RetryOptions = {},
+): FetchAdapter {
+  return async (input, init) => {
+    for (let attempt = 0; ; attempt++) {
+      const delay = Math.random() * baseDelayMs * 2 ** attempt;
+      try {
+        const response = await fetch(input, init);
+        if (!RETRYABLE_STATUSES.has(response.status) || attempt >= retries) {
+          return response;
+        }
+      } catch (error) {
+        if (attempt >= retries) throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  };
+}
@@ -0,0 +1,42 @@
+// Display helpers shared by the activity routes and components.
+
+// "Tue, Mar 4, 2025" for a YYYY-MM-DD date, without shifting it through UTC.
+export function formatDate(dateStr: string): string {
+  const date = new Date(dateStr + "T00:00:00");
+  return date.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// "3h 12m", or "12m" under an hour.
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours >= 1) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+// "Mar 4 – Mar 12", or "Dec 28, 2024 – Jan 3, 2025" across years.
+export function formatDateRange(start: string, end: string): string {
+  const sameYear = start.slice(0, 4) === end.slice(0, 4);
+  const format = (dateStr: string) =>
+    new Date(dateStr + "T00:00:00").toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: sameYear ? undefined : "numeric",
+    });
+  return start === end ? format(start) : `${format(start)} – ${format(end)}`;
+}
+
+// "Mar 4, 3:12 PM" for an ISO timestamp, in the visitor's time zone.
+export function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,542 @@
+import type { ZodType } from "zod";
+import type {
+  GitHubContributionItem,
+  GitHubData,
+  GitHubDayData,
+  GitHubLifetimeSummary,
+  GitHubRepositoriesData,
+  GitHubRepository,
+  GitHubRepositoryContributions,
+  GitHubYearTotal,
+} from "@/lib/activity-types";
+import {
+  gitHubContributionCalendarResponseSchema,
+  gitHubRateLimitSchema,
+  gitHubContributionDayResponseSchema,
+  gitHubRepositoriesResponseSchema,
+  parseUpstream,
+  type GitHubCommitContributionNode,
+  type GitHubContributionItemNode,
+  type GitHubRepositoryNode,
+} from "@/lib/activity-schemas";
+import { withRetry, type FetchAdapter } from "@/lib/fetch-adapter";
+import {
+  errorFromResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { trackRequest } from "@/lib/provider-health";
+import {
+  assertQuotaAvailable,
+  recordQuota,
+  recordQuotaHeaders,
+  recordRateLimited,
+} from "@/lib/rate-limit";
+
+const GITHUB_GRAPHQL_URL = "https://api.github.com/graphql";
+
+export const DEFAULT_GITHUB_USERNAME = "Shyamsaitejamandibi";
+
+const FIRST_CONTRIBUTION_YEAR = 2008;
+const TOP_REPOSITORY_COUNT = 5;
+const REPOSITORY_FEED_COUNT = 6;
+// Per-day lists are capped; nobody opens more than this in a day.
+const DAY_ITEM_COUNT = 25;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ContributionRange {
+  from?: string;
+  to?: string;
+}
+
+const contributionCalendarQuery = `
+  query ContributionCalendar(
+    $username: String!
+    $from: DateTime
+    $to: DateTime
+    $maxRepositories: Int!
+  ) {
+    rateLimit {
+      limit
+      remaining
+      resetAt
+    }
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        contributionYears
+        totalCommitContributions
+        totalPullRequestContributions
+        totalIssueContributions
+        totalPullRequestReviewContributions
+        commitContributionsByRepository(maxRepositories: $maxRepositories) {
+          repository {
+            nameWithOwner
+            url
+            primaryLanguage {
+              name
+              color
+            }
+          }
+          contributions {
+            totalCount
+          }
+        }
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              contributionCount
+              date
+              color
+              weekday
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const contributionDayQuery = `
+  query ContributionDay(
+    $username: String!
+    $from: DateTime!
+    $to: DateTime!
+    $count: Int!
+  ) {
+    rateLimit {
+      limit
+      remaining
+      resetAt
+    }
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        commitContributionsByRepository(maxRepositories: $count) {
+          repository {
+            nameWithOwner
+            url
+            primaryLanguage {
+              name
+              color
+            }
+          }
+          contributions {
+            totalCount
+          }
+        }
+        pullRequestContributions(first: $count) {
+          nodes {
+            pullRequest {
+              title
+              url
+              number
+              repository {
+                nameWithOwner
+              }
+            }
+          }
+        }
+        issueContributions(first: $count) {
+          nodes {
+            issue {
+              title
+              url
+              number
+              repository {
+                nameWithOwner
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const repositoriesQuery = `
+  fragment RepositoryFields on Repository {
+    name
+    nameWithOwner
+    url
+    description
+    homepageUrl
+    stargazerCount
+    forkCount
+    pushedAt
+    primaryLanguage {
+      name
+      color
+    }
+    repositoryTopics(first: 10) {
+      nodes {
+        topic {
+          name
+        }
+      }
+    }
+  }
+
+  query PinnedRepositories($username: String!, $count: Int!) {
+    rateLimit {
+      limit
+      remaining
+      resetAt
+    }
+    user(login: $username) {
+      pinnedItems(first: $count, types: REPOSITORY) {
+        nodes {
+          ...RepositoryFields
+        }
+      }
+      repositories(
+        first: $count
+        privacy: PUBLIC
+        ownerAffiliations: OWNER
+        isFork: false
+        orderBy: { field: PUSHED_AT, direction: DESC }
+      ) {
+        nodes {
+          ...RepositoryFields
+        }
+      }
+    }
+  }
+`;
+
+function toRepository(node: GitHubRepositoryNode): GitHubRepository {
+  return {
+    name: node.name,
+    nameWithOwner: node.nameWithOwner,
+    url: node.url,
+    description: node.description,
+    homepageUrl: node.homepageUrl || null,
+    stars: node.stargazerCount,
+    forks: node.forkCount,
+    language: node.primaryLanguage?.name ?? null,
+    languageColor: node.primaryLanguage?.color ?? null,
+    topics: node.repositoryTopics.nodes.map(({ topic }) => topic.name),
+    pushedAt: node.pushedAt,
+  };
+}
+
+function toRepositoryContributions(
+  nodes: GitHubCommitContributionNode[],
+): GitHubRepositoryContributions[] {
+  return nodes
+    .map(({ repository, contributions }) => ({
+      nameWithOwner: repository.nameWithOwner,
+      url: repository.url,
+      language: repository.primaryLanguage?.name ?? null,
+      languageColor: repository.primaryLanguage?.color ?? null,
+      commits: contributions.totalCount,
+    }))
+    .sort((a, b) => b.commits - a.commits);
+}
+
+function toContributionItem(
+  item: GitHubContributionItemNode,
+): GitHubContributionItem {
+  return {
+    title: item.title,
+    url: item.url,
+    number: item.number,
+    repository: item.repository.nameWithOwner,
+  };
+}
+
+function parseDate(name: string, value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ProviderError("bad_request", `"${name}" must be an ISO date`);
+  }
+  return date;
+}
+
+export function getYearRange(year: number): ContributionRange {
+  return {
+    from: `${year}-01-01T00:00:00Z`,
+    to: `${year}-12-31T23:59:59Z`,
+  };
+}
+
+// Reads `year` or `from`/`to` from the query string. Returns an empty range
+// (GitHub's default rolling year) when none are given.
+export function parseContributionRange(
+  searchParams: URLSearchParams,
+): ContributionRange {
+  const year = searchParams.get("year");
+  const from = searchParams.get("from");
+  const to = searchParams.get("to");
+
+  if (year !== null) {
+    if (from !== null || to !== null) {
+      throw new ProviderError(
+        "bad_request",
+        `"year" cannot be combined with "from" or "to"`,
+      );
+    }
+
+    const value = Number(year);
+    const currentYear = new Date().getUTCFullYear();
+    if (
+      !/^\d{4}$/.test(year) ||
+      value < FIRST_CONTRIBUTION_YEAR ||
+      value > currentYear
+    ) {
+      throw new ProviderError(
+        "bad_request",
+        `"year" must be between ${FIRST_CONTRIBUTION_YEAR} and ${currentYear}`,
+      );
+    }
+
+    return getYearRange(value);
+  }
+
+  const range: ContributionRange = {};
+  if (from !== null) range.from = parseDate("from", from).toISOString();
+  if (to !== null) range.to = parseDate("to", to).toISOString();
+
+  if (range.from && range.to) {
+    const fromDate = new Date(range.from);
+    const toDate = new Date(range.to);
+    if (toDate <= fromDate) {
+      throw new ProviderError("bad_request", `"from" must be before "to"`);
+    }
+    // GitHub rejects contributionsCollection spans longer than a year
+    const latestTo = new Date(fromDate);
+    latestTo.setUTCFullYear(fromDate.getUTCFullYear() + 1);
+    if (toDate > latestTo) {
+      throw new ProviderError(
+        "bad_request",
+        `"from" and "to" must be at most one year apart`,
+      );
+    }
+  }
+
+  return range;
+}
+
+// Reads the required `date` (YYYY-MM-DD) for the day-detail route.
+export function parseContributionDay(searchParams: URLSearchParams): string {
+  const date = searchParams.get("date");
+  if (
+    date === null ||
+    !DATE_PATTERN.test(date) ||
+    Number.isNaN(Date.parse(`${date}T00:00:00Z`)) ||
+    new Date(`${date}T00:00:00Z`).toISOString().slice(0, 10) !== date
+  ) {
+    throw new ProviderError("bad_request", `"date" must be a YYYY-MM-DD date`);
+  }
+  return date;
+}
+
+interface GitHubClientOptions {
+  token: string;
+  fetch: FetchAdapter;
+}
+
+export function createGitHubClient({ token, fetch }: GitHubClientOptions) {
+  const fetchWithRetry = withRetry(fetch);
+
+  // Runs a query and validates its `data` against `schema`.
+  function graphql<T>(
+    query: string,
+    variables: Record<string, unknown>,
+    schema: ZodType<T>,
+  ): Promise<T> {
+    return trackRequest("GitHub", async () => {
+      assertQuotaAvailable("GitHub");
+
+      let response: Response;
+      try {
+        response = await fetchWithRetry(GITHUB_GRAPHQL_URL, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ query, variables }),
+          next: { revalidate: 3600 }, // Cache for 1 hour
+        });
+      } catch (error) {
+        throw toProviderError("GitHub", error);
+      }
+
+      recordQuotaHeaders("GitHub", response.headers);
+
+      if (!response.ok) {
+        const error = errorFromResponse("GitHub", response);
+        if (error.code === "rate_limited") {
+          recordRateLimited("GitHub", error.retryAfter);
+        }
+        throw error;
+      }
+
+      const data = await response.json().catch(() => {
+        throw new ProviderError("bad_payload", "GitHub returned invalid JSON");
+      });
+
+      // The same budget, as reported by the query's own `rateLimit` field
+      const rateLimit = gitHubRateLimitSchema.safeParse(data.data).data
+        ?.rateLimit;
+      if (rateLimit) {
+        recordQuota("GitHub", {
+          limit: rateLimit.limit,
+          remaining: rateLimit.remaining,
+          resetAt: Date.parse(rateLimit.resetAt),
+        });
+      }
+
+      if (data.errors) {
+        const [first] = data.errors;
+        if (first?.type === "RATE_LIMITED") recordRateLimited("GitHub", 60);
+        throw new ProviderError(
+          first?.type === "RATE_LIMITED"
+            ? "rate_limited"
+            : "upstream_unavailable",
+          first?.message ?? "GitHub GraphQL error",
+          { upstreamStatus: response.status, retryAfter: 60 },
+        );
+      }
+
+      return parseUpstream("GitHub", schema, data.data);
+    });
+  }
+
+  async function getContributionCalendar(
+    username: string,
+    range: ContributionRange = {},
+  ): Promise<GitHubData> {
+    const data = await graphql(
+      contributionCalendarQuery,
+      {
+        username,
+        from: range.from ?? null,
+        to: range.to ?? null,
+        maxRepositories: TOP_REPOSITORY_COUNT,
+      },
+      gitHubContributionCalendarResponseSchema,
+    );
+
+    const collection = data.user.contributionsCollection;
+    return {
+      ...collection.contributionCalendar,
+      contributionYears: collection.contributionYears,
+      breakdown: {
+        commits: collection.totalCommitContributions,
+        pullRequests: collection.totalPullRequestContributions,
+        issues: collection.totalIssueContributions,
+        reviews: collection.totalPullRequestReviewContributions,
+      },
+      topRepositories: toRepositoryContributions(
+        collection.commitContributionsByRepository,
+      ),
+    };
+  }
+
+  return {
+    getContributionCalendar,
+
+    // What happened on one day (UTC): commits per repository, plus the pull
+    // requests and issues opened.
+    async getContributionDay(
+      username: string,
+      date: string,
+    ): Promise<GitHubDayData> {
+      const data = await graphql(
+        contributionDayQuery,
+        {
+          username,
+          from: `${date}T00:00:00Z`,
+          to: `${date}T23:59:59Z`,
+          count: DAY_ITEM_COUNT,
+        },
+        gitHubContributionDayResponseSchema,
+      );
+
+      const collection = data.user.contributionsCollection;
+      return {
+        date,
+        commits: toRepositoryContributions(
+          collection.commitContributionsByRepository,
+        ),
+        pullRequests: collection.pullRequestContributions.nodes.map(
+          ({ pullRequest }) => toContributionItem(pullRequest),
+        ),
+        issues: collection.issueContributions.nodes.map(({ issue }) =>
+          toContributionItem(issue),
+        ),
+      };
+    },
+
+    async getRepositories(username: string): Promise<GitHubRepositoriesData> {
+      const data = await graphql(
+        repositoriesQuery,
+        {
+          username,
+          count: REPOSITORY_FEED_COUNT,
+        },
+        gitHubRepositoriesResponseSchema,
+      );
+
+      return {
+        pinned: data.user.pinnedItems.nodes
+          .filter(
+            (node): node is GitHubRepositoryNode => "nameWithOwner" in node,
+          )
+          .map(toRepository),
+        recent: data.user.repositories.nodes.map(toRepository),
+      };
+    },
+
+    // Loads every year the user has contributed in and folds them into
+    // lifetime totals.
+    async getLifetimeSummary(username: string): Promise<GitHubLifetimeSummary> {
+      const { contributionYears } = await getContributionCalendar(username);
+      const calendars = await Promise.all(
+        contributionYears.map((year) =>
+          getContributionCalendar(username, getYearRange(year)),
+        ),
+      );
+
+      const years: GitHubYearTotal[] = contributionYears.map((year, i) => ({
+        year,
+        totalContributions: calendars[i].totalContributions,
+      }));
+
+      let bestYear: GitHubYearTotal | null = null;
+      for (const entry of years) {
+        if (
+          entry.totalContributions > 0 &&
+          entry.totalContributions > (bestYear?.totalContributions ?? 0)
+        ) {
+          bestYear = entry;
+        }
+      }
+
+      let bestDay: GitHubLifetimeSummary["bestDay"] = null;
+      for (const calendar of calendars) {
+        for (const week of calendar.weeks) {
+          for (const day of week.contributionDays) {
+            if (day.contributionCount > (bestDay?.contributionCount ?? 0)) {
+              bestDay = {
+                date: day.date,
+                contributionCount: day.contributionCount,
+              };
+            }
+          }
+        }
+      }
+
+      return {
+        totalContributions: years.reduce(
+          (sum, entry) => sum + entry.totalContributions,
+          0,
+        ),
+        years,
+        bestYear,
+        bestDay,
+      };
+    },
+  };
+}
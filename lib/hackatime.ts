@@ -0,0 +1,375 @@
+import type { ZodType } from "zod";
+import type {
+  HackatimeBreakdownKey,
+  HackatimeDailyData,
+  HackatimeData,
+  HackatimeStatItem,
+} from "@/lib/activity-types";
+import {
+  hackatimeSpansResponseSchema,
+  hackatimeStatsResponseSchema,
+  parseUpstream,
+  type HackatimeStatItemNode,
+} from "@/lib/activity-schemas";
+import { withRetry, type FetchAdapter } from "@/lib/fetch-adapter";
+import { formatDuration } from "@/lib/format";
+import {
+  errorFromResponse,
+  ProviderError,
+  toProviderError,
+} from "@/lib/provider-error";
+import { trackRequest } from "@/lib/provider-health";
+import {
+  assertQuotaAvailable,
+  recordQuotaHeaders,
+  recordRateLimited,
+} from "@/lib/rate-limit";
+
+const HACKATIME_BASE_URL = "https://hackatime.hackclub.com/api/v1";
+
+// Longest window a custom `start`/`end` may cover; matches `all_time`.
+const MAX_RANGE_YEARS = 10;
+// Rows kept per breakdown before the rest is folded into "Other".
+const BREAKDOWN_LIMIT = 6;
+const BREAKDOWN_KEYS: HackatimeBreakdownKey[] = [
+  "languages",
+  "editors",
+  "operating_systems",
+  "projects",
+  "machines",
+];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const HACKATIME_RANGES = [
+  "last_7_days",
+  "last_30_days",
+  "last_6_months",
+  "last_year",
+  "this_month",
+  "last_month",
+  "year_to_date",
+  "all_time",
+] as const;
+
+export type HackatimeRange = (typeof HACKATIME_RANGES)[number];
+
+export interface HackatimeDateRange {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+}
+
+const fmt = (d: Date) => d.toISOString().split("T")[0]; // YYYY-MM-DD
+
+// YYYY-MM-DD of `date` as seen in `timeZone`.
+function dateKeyIn(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)!.value;
+  return `${get("year")}-${get("month")}-${get("day")}`;
+}
+
+// Today's calendar date in `timeZone`, as a UTC-midnight Date so the
+// arithmetic below never depends on the server's own zone.
+function todayIn(timeZone: string): Date {
+  return new Date(`${dateKeyIn(new Date(), timeZone)}T00:00:00Z`);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getDateRange(
+  range: HackatimeRange,
+  timeZone = "UTC",
+): HackatimeDateRange {
+  const end = todayIn(timeZone);
+  const start = new Date(end);
+
+  switch (range) {
+    case "last_7_days":
+      start.setUTCDate(end.getUTCDate() - 7);
+      break;
+    case "last_30_days":
+      start.setUTCDate(end.getUTCDate() - 30);
+      break;
+    case "last_6_months":
+      start.setUTCMonth(end.getUTCMonth() - 6);
+      break;
+    case "last_year":
+      start.setUTCFullYear(end.getUTCFullYear() - 1);
+      break;
+    case "this_month":
+      start.setUTCDate(1);
+      break;
+    case "last_month":
+      start.setUTCMonth(end.getUTCMonth() - 1, 1);
+      end.setUTCDate(0); // last day of the previous month
+      break;
+    case "year_to_date":
+      start.setUTCMonth(0, 1);
+      break;
+    case "all_time":
+      start.setUTCFullYear(end.getUTCFullYear() - MAX_RANGE_YEARS);
+      break;
+  }
+
+  return { start_date: fmt(start), end_date: fmt(end) };
+}
+
+function shiftDay(value: string, days: number): string {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fmt(date);
+}
+
+function parseDay(name: string, value: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (
+    !DATE_PATTERN.test(value) ||
+    Number.isNaN(date.getTime()) ||
+    fmt(date) !== value
+  ) {
+    throw new ProviderError(
+      "bad_request",
+      `"${name}" must be a YYYY-MM-DD date`,
+    );
+  }
+  return date;
+}
+
+// Reads the optional IANA `tz` from the query string.
+export function parseTimeZone(
+  searchParams: URLSearchParams,
+  defaultTimeZone = "UTC",
+): string {
+  const timeZone = searchParams.get("tz") || defaultTimeZone;
+
+  if (!isValidTimeZone(timeZone)) {
+    throw new ProviderError("bad_request", `"tz" must be an IANA time zone`);
+  }
+  return timeZone;
+}
+
+// Reads `range` or `start`/`end` (plus an optional IANA `tz`) from the query
+// string. Defaults to `defaultRange`.
+export function parseHackatimeRange(
+  searchParams: URLSearchParams,
+  defaultTimeZone = "UTC",
+  defaultRange: HackatimeRange = "all_time",
+): HackatimeDateRange {
+  const range = searchParams.get("range");
+  const start = searchParams.get("start");
+  const end = searchParams.get("end");
+  const timeZone = parseTimeZone(searchParams, defaultTimeZone);
+
+  if (start === null && end === null) {
+    const preset = range ?? defaultRange;
+    if (!(HACKATIME_RANGES as readonly string[]).includes(preset)) {
+      throw new ProviderError(
+        "bad_request",
+        `"range" must be one of ${HACKATIME_RANGES.join(", ")}`,
+      );
+    }
+    return getDateRange(preset as HackatimeRange, timeZone);
+  }
+
+  if (range !== null) {
+    throw new ProviderError(
+      "bad_request",
+      `"range" cannot be combined with "start" or "end"`,
+    );
+  }
+  if (start === null || end === null) {
+    throw new ProviderError(
+      "bad_request",
+      `"start" and "end" must be given together`,
+    );
+  }
+
+  const startDate = parseDay("start", start);
+  const endDate = parseDay("end", end);
+
+  if (startDate > endDate) {
+    throw new ProviderError("bad_request", `"start" must not be after "end"`);
+  }
+
+  const earliestStart = new Date(endDate);
+  earliestStart.setUTCFullYear(endDate.getUTCFullYear() - MAX_RANGE_YEARS);
+  if (startDate < earliestStart) {
+    throw new ProviderError(
+      "bad_request",
+      `"start" and "end" must be at most ${MAX_RANGE_YEARS} years apart`,
+    );
+  }
+
+  return { start_date: start, end_date: end };
+}
+
+// Sorts a breakdown by time, keeps the top `limit` rows and folds everything
+// else (including any upstream "Other" row) into one "Other" row. Percentages
+// are recomputed from seconds so the rows always sum to 100.
+export function bucketBreakdown(
+  items: HackatimeStatItemNode[],
+  limit = BREAKDOWN_LIMIT,
+): HackatimeStatItem[] {
+  const total = items.reduce((sum, item) => sum + item.total_seconds, 0);
+  if (total === 0) return [];
+
+  const toItem = (
+    name: string,
+    seconds: number,
+    color?: string,
+  ): HackatimeStatItem => ({
+    name,
+    total_seconds: seconds,
+    percent: (seconds / total) * 100,
+    text: formatDuration(seconds),
+    ...(color ? { color } : {}),
+  });
+
+  const named = items
+    .filter((item) => item.name !== "Other" && item.total_seconds > 0)
+    .sort((a, b) => b.total_seconds - a.total_seconds);
+  const top = named
+    .slice(0, limit)
+    .map((item) => toItem(item.name, item.total_seconds, item.color));
+
+  const otherSeconds = total - top.reduce((s, i) => s + i.total_seconds, 0);
+  return otherSeconds > 0 ? [...top, toItem("Other", otherSeconds)] : top;
+}
+
+interface HackatimeClientOptions {
+  username: string;
+  apiKey?: string;
+  fetch: FetchAdapter;
+}
+
+export function createHackatimeClient({
+  username,
+  apiKey,
+  fetch,
+}: HackatimeClientOptions) {
+  const fetchWithRetry = withRetry(fetch);
+
+  // Fetches a user endpoint and validates its payload against `schema`.
+  function request<T>(path: string, schema: ZodType<T>): Promise<T> {
+    return trackRequest("Hackatime", async () => {
+      assertQuotaAvailable("Hackatime");
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+
+      if (apiKey) {
+        headers["Authorization"] = `Bearer ${apiKey}`;
+      }
+
+      let response: Response;
+      try {
+        response = await fetchWithRetry(
+          `${HACKATIME_BASE_URL}/users/${username}${path}`,
+          {
+            headers,
+            next: { revalidate: 3600 },
+          },
+        );
+      } catch (error) {
+        throw toProviderError("Hackatime", error);
+      }
+
+      recordQuotaHeaders("Hackatime", response.headers);
+
+      if (!response.ok) {
+        const error = errorFromResponse("Hackatime", response);
+        if (error.code === "rate_limited") {
+          recordRateLimited("Hackatime", error.retryAfter);
+        }
+        throw error;
+      }
+
+      const responseData = await response.json().catch(() => {
+        throw new ProviderError(
+          "bad_payload",
+          "Hackatime returned invalid JSON",
+        );
+      });
+
+      return parseUpstream(
+        "Hackatime",
+        schema,
+        responseData?.data ?? responseData,
+      );
+    });
+  }
+
+  return {
+    async getStats(range: HackatimeDateRange): Promise<HackatimeData> {
+      const stats = await request(
+        `/stats?start_date=${range.start_date}&end_date=${range.end_date}&features=${BREAKDOWN_KEYS.join(",")}`,
+        hackatimeStatsResponseSchema,
+      );
+
+      return {
+        ...stats,
+        languages: bucketBreakdown(stats.languages),
+        editors: bucketBreakdown(stats.editors),
+        operating_systems: bucketBreakdown(stats.operating_systems),
+        projects: bucketBreakdown(stats.projects),
+        machines: bucketBreakdown(stats.machines),
+      };
+    },
+
+    // Sums heartbeat spans into per-day seconds. Each span counts towards the
+    // day it started on in `timeZone`; every day in the range is present,
+    // zero-filled.
+    async getDailyDurations(
+      range: HackatimeDateRange,
+      timeZone: string,
+    ): Promise<HackatimeDailyData> {
+      // The range is in `timeZone` but upstream dates are UTC, so ask for a
+      // day either side and drop whatever lands outside after bucketing
+      const { spans } = await request(
+        `/heartbeats/spans?start_date=${shiftDay(range.start_date, -1)}&end_date=${shiftDay(range.end_date, 1)}`,
+        hackatimeSpansResponseSchema,
+      );
+
+      const seconds = new Map<string, number>();
+      for (
+        let day = new Date(`${range.start_date}T00:00:00Z`);
+        fmt(day) <= range.end_date;
+        day.setUTCDate(day.getUTCDate() + 1)
+      ) {
+        seconds.set(fmt(day), 0);
+      }
+
+      for (const span of spans) {
+        const date = dateKeyIn(new Date(span.start_time * 1000), timeZone);
+        if (seconds.has(date)) {
+          seconds.set(date, seconds.get(date)! + span.duration);
+        }
+      }
+
+      const days = [...seconds].map(([date, total_seconds]) => ({
+        date,
+        total_seconds: Math.round(total_seconds),
+      }));
+
+      return {
+        start_date: range.start_date,
+        end_date: range.end_date,
+        time_zone: timeZone,
+        total_seconds: days.reduce((sum, day) => sum + day.total_seconds, 0),
+        days,
+      };
+    },
+  };
+}
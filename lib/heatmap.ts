@@ -0,0 +1,145 @@
+// Pure helpers behind ContributionHeatmap: level scales, colour themes and
+// calendar geometry. Nothing here touches the DOM.
+
+export interface HeatmapDatum {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+// Quartiles of the non-zero values (GitHub's own approach), or even steps
+// on a log scale so a few outlier days don't flatten everything else.
+export type LevelScaleMode = "quantile" | "log";
+
+export interface LevelScale {
+  // Maps a value to a level index into a theme (0 = empty)
+  getLevel: (value: number) => number;
+  // Smallest and largest loaded value per level; null when no day lands there
+  ranges: ([number, number] | null)[];
+}
+
+// One colour per level, empty first.
+export const HEATMAP_THEMES = {
+  github: [
+    "rgba(255, 255, 255, 0.04)", // level 0 — empty
+    "#0e4429", // level 1
+    "#006d32", // level 2
+    "#26a641", // level 3
+    "#39d353", // level 4
+  ],
+  // Same ramp in blue, so coding time reads as a separate dataset
+  coding: [
+    "rgba(255, 255, 255, 0.04)", // level 0 — empty
+    "#0c2d6b", // level 1
+    "#1f4fa3", // level 2
+    "#388bfd", // level 3
+    "#79c0ff", // level 4
+  ],
+};
+
+export type HeatmapTheme = keyof typeof HEATMAP_THEMES;
+
+const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Builds a level scale from the loaded values, so light and heavy
+// contributors both get the full colour ramp.
+export function createLevelScale(
+  values: number[],
+  mode: LevelScaleMode = "quantile",
+  levels = 4,
+): LevelScale {
+  const active = values.filter((v) => v > 0).sort((a, b) => a - b);
+  const max = active[active.length - 1] ?? 0;
+
+  // Upper bound of each level but the last
+  const thresholds: number[] = [];
+  for (let i = 1; i < levels; i++) {
+    thresholds.push(
+      mode === "log"
+        ? Math.expm1((Math.log1p(max) * i) / levels)
+        : (active[Math.ceil((active.length * i) / levels) - 1] ?? 0),
+    );
+  }
+
+  const getLevel = (value: number) =>
+    value <= 0 ? 0 : 1 + thresholds.filter((t) => value > t).length;
+
+  const ranges: ([number, number] | null)[] = Array.from(
+    { length: levels + 1 },
+    () => null,
+  );
+  for (const value of [0, ...active]) {
+    const level = getLevel(value);
+    const range = ranges[level];
+    ranges[level] = range
+      ? [Math.min(range[0], value), Math.max(range[1], value)]
+      : [value, value];
+  }
+
+  return { getLevel, ranges };
+}
+
+// Groups consecutive dates into Sunday-first week columns, like GitHub's
+// calendar. Each week has one slot per weekday; days outside the range are null.
+export function groupIntoWeeks(dates: string[]): (string | null)[][] {
+  const weeks: (string | null)[][] = [];
+  for (const date of dates) {
+    const weekday = new Date(date + "T00:00:00").getDay();
+    if (weeks.length === 0 || weekday === 0) weeks.push(Array(7).fill(null));
+    weeks[weeks.length - 1][weekday] = date;
+  }
+  return weeks;
+}
+
+export function getMonthLabels(weeks: (string | null)[][]) {
+  const labels: { label: string; col: number }[] = [];
+  let lastMonth = -1;
+  weeks.forEach((week, i) => {
+    const firstDay = week.find((date) => date !== null);
+    if (!firstDay) return;
+    const month = new Date(firstDay + "T00:00:00").getMonth();
+    if (month !== lastMonth) {
+      labels.push({ label: MONTH_LABELS[month], col: i });
+      lastMonth = month;
+    }
+  });
+  return labels;
+}
+
+// Per-month totals for the screen-reader summary table
+export function summarizeByMonth(data: HeatmapDatum[]) {
+  const months: {
+    month: string; // YYYY-MM
+    label: string;
+    total: number;
+    activeDays: number;
+  }[] = [];
+  for (const { date, value } of data) {
+    const month = date.slice(0, 7);
+    let entry = months[months.length - 1];
+    if (!entry || entry.month !== month) {
+      entry = {
+        month,
+        label: `${MONTH_LABELS[Number(date.slice(5, 7)) - 1]} ${date.slice(0, 4)}`,
+        total: 0,
+        activeDays: 0,
+      };
+      months.push(entry);
+    }
+    entry.total += value;
+    if (value > 0) entry.activeDays++;
+  }
+  return months;
+}
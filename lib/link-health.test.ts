@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import { checkLink, checkLinks } from "@/lib/link-health";
+
+// Path -> how the mock server answers it
+const ROUTES: Record<
+  string,
+  (method: string) => { status: number; location?: string; delayMs?: number }
+> = {
+  "/ok": () => ({ status: 200 }),
+  "/gone": () => ({ status: 404 }),
+  "/removed": () => ({ status: 410 }),
+  "/outage": () => ({ status: 503 }),
+  "/blocked": () => ({ status: 999 }),
+  "/moved": () => ({ status: 301, location: "/moved-again" }),
+  "/moved-again": () => ({ status: 302, location: "/ok" }),
+  "/loop": () => ({ status: 302, location: "/loop-back" }),
+  "/loop-back": () => ({ status: 302, location: "/loop" }),
+  "/chain/1": () => ({ status: 302, location: "/chain/2" }),
+  "/chain/2": () => ({ status: 302, location: "/chain/3" }),
+  "/chain/3": () => ({ status: 302, location: "/chain/4" }),
+  "/chain/4": () => ({ status: 302, location: "/ok" }),
+  "/no-head": (method) => ({ status: method === "HEAD" ? 405 : 200 }),
+  "/slow": () => ({ status: 200, delayMs: 500 }),
+};
+
+let server: Server;
+let baseUrl: string;
+
+const link = (path: string) => ({ url: `${baseUrl}${path}`, source: "test" });
+
+before(async () => {
+  server = createServer((request, response) => {
+    const route = ROUTES[request.url ?? ""] ?? (() => ({ status: 404 }));
+    const { status, location, delayMs = 0 } = route(request.method ?? "GET");
+    setTimeout(() => {
+      response.writeHead(status, location ? { Location: location } : {});
+      response.end("body");
+    }, delayMs);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe("checkLink", () => {
+  it("reports a 200 as ok with a response time", async () => {
+    const status = await checkLink(link("/ok"));
+    assert.equal(status.state, "ok");
+    assert.equal(status.status, 200);
+    assert.equal(status.gone, false);
+    assert.deepEqual(status.redirects, []);
+    assert.equal(typeof status.responseTimeMs, "number");
+  });
+
+  it("reports a 404 or 410 as down and gone", async () => {
+    for (const path of ["/gone", "/removed"]) {
+      const status = await checkLink(link(path));
+      assert.equal(status.state, "down");
+      assert.equal(status.gone, true);
+    }
+  });
+
+  it("reports a 5xx as down but not gone", async () => {
+    const status = await checkLink(link("/outage"));
+    assert.equal(status.state, "down");
+    assert.equal(status.status, 503);
+    assert.equal(status.gone, false);
+  });
+
+  it("reports statuses that say nothing about the page as unknown", async () => {
+    const status = await checkLink(link("/blocked"));
+    assert.equal(status.state, "unknown");
+    assert.equal(status.gone, false);
+  });
+
+  it("follows a chain of redirects and lists each hop", async () => {
+    const status = await checkLink(link("/moved"));
+    assert.equal(status.state, "ok");
+    assert.equal(status.status, 200);
+    assert.deepEqual(status.redirects, [
+      `${baseUrl}/moved-again`,
+      `${baseUrl}/ok`,
+    ]);
+  });
+
+  it("stops at a redirect loop and reports it as gone", async () => {
+    const status = await checkLink(link("/loop"));
+    assert.equal(status.state, "down");
+    assert.equal(status.gone, true);
+    assert.deepEqual(status.redirects, [`${baseUrl}/loop-back`]);
+    assert.equal(status.error, `Redirect loop back to ${baseUrl}/loop`);
+  });
+
+  it("reports a chain longer than maxRedirects as down but not gone", async () => {
+    const status = await checkLink(link("/chain/1"), { maxRedirects: 2 });
+    assert.equal(status.state, "down");
+    assert.equal(status.gone, false);
+    assert.equal(status.redirects.length, 2);
+    assert.match(status.error ?? "", /More than 2 redirects/);
+  });
+
+  it("falls back to GET when HEAD is refused", async () => {
+    const status = await checkLink(link("/no-head"));
+    assert.equal(status.state, "ok");
+    assert.equal(status.status, 200);
+  });
+
+  it("reports a host that answers too slowly as down but not gone", async () => {
+    const status = await checkLink(link("/slow"), { timeoutMs: 100 });
+    assert.equal(status.state, "down");
+    assert.equal(status.status, null);
+    assert.equal(status.gone, false);
+    assert.equal(status.error, "No response within 100ms");
+  });
+});
+
+describe("checkLinks", () => {
+  it("checks every link and keeps their order", async () => {
+    const paths = ["/outage", "/ok", "/gone", "/moved", "/no-head"];
+    const report = await checkLinks(paths.map(link), { concurrency: 2 });
+
+    assert.deepEqual(
+      report.links.map((status) => status.url),
+      paths.map((path) => `${baseUrl}${path}`),
+    );
+    assert.deepEqual(
+      report.links.map((status) => status.state),
+      ["down", "ok", "down", "ok", "ok"],
+    );
+    assert.ok(!Number.isNaN(Date.parse(report.checkedAt)));
+  });
+});
@@ -0,0 +1,172 @@
+import { CONTACT_LINKS } from "@/lib/contact-links";
+import type { FetchAdapter } from "@/lib/fetch-adapter";
+import { projects } from "@/lib/projects";
+
+// "unknown" covers answers that say nothing about the page itself, like a
+// 403 or LinkedIn's 999 for automated requests.
+export type LinkState = "ok" | "down" | "unknown";
+
+export interface ContentLink {
+  url: string;
+  source: string; // e.g. "project:cai" or "contact:github"
+}
+
+export interface LinkStatus extends ContentLink {
+  state: LinkState;
+  // The host itself says the page is gone (404, 410 or a redirect loop), as
+  // opposed to a possibly brief outage
+  gone: boolean;
+  status: number | null; // final HTTP status, null when no response came back
+  redirects: string[]; // every URL redirected to, in order
+  responseTimeMs: number | null;
+  error: string | null;
+}
+
+export interface LinkReport {
+  checkedAt: string;
+  links: LinkStatus[];
+}
+
+interface CheckOptions {
+  fetch?: FetchAdapter;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  concurrency?: number;
+}
+
+const USER_AGENT = "Mozilla/5.0 (compatible; portfolio-link-check)";
+const GONE_STATUSES = new Set([404, 410]);
+
+// Every external URL the site renders: project links and contact profiles.
+export function collectContentLinks(): ContentLink[] {
+  return [
+    ...projects.map((project) => ({
+      url: project.link,
+      source: `project:${project.slug}`,
+    })),
+    ...Object.entries(CONTACT_LINKS).map(([name, url]) => ({
+      url,
+      source: `contact:${name}`,
+    })),
+  ];
+}
+
+function toState(status: number): LinkState {
+  if (status >= 200 && status < 300) return "ok";
+  if (GONE_STATUSES.has(status) || (status >= 500 && status < 600)) {
+    return "down";
+  }
+  return "unknown";
+}
+
+// Follows redirects by hand so each hop can be reported. Tries HEAD first and
+// falls back to GET, since plenty of hosts answer HEAD with an error.
+export async function checkLink(
+  link: ContentLink,
+  {
+    fetch = (input, init) => globalThis.fetch(input, init),
+    timeoutMs = 10_000,
+    maxRedirects = 5,
+  }: CheckOptions = {},
+): Promise<LinkStatus> {
+  const started = Date.now();
+  const result = (
+    state: LinkState,
+    status: number | null,
+    redirects: string[],
+    error: string | null = null,
+    redirectLoop = false,
+  ): LinkStatus => ({
+    ...link,
+    state,
+    gone: redirectLoop || (status !== null && GONE_STATUSES.has(status)),
+    status,
+    redirects,
+    responseTimeMs: status === null ? null : Date.now() - started,
+    error,
+  });
+
+  const request = async (url: string, method: "HEAD" | "GET") => {
+    const response = await fetch(url, {
+      method,
+      redirect: "manual",
+      headers: { "User-Agent": USER_AGENT },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel();
+    return response;
+  };
+
+  const redirects: string[] = [];
+  let url = link.url;
+  try {
+    for (;;) {
+      let response = await request(url, "HEAD");
+      if (response.status >= 400) response = await request(url, "GET");
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        const next = new URL(location, url).toString();
+        // Only a URL coming round again is a loop; a chain that is merely
+        // long may still end somewhere
+        if (next === link.url || redirects.includes(next)) {
+          return result(
+            "down",
+            response.status,
+            redirects,
+            `Redirect loop back to ${next}`,
+            true,
+          );
+        }
+        if (redirects.length >= maxRedirects) {
+          return result(
+            "down",
+            response.status,
+            redirects,
+            `More than ${maxRedirects} redirects`,
+          );
+        }
+        url = next;
+        redirects.push(url);
+        continue;
+      }
+
+      return result(toState(response.status), response.status, redirects);
+    }
+  } catch (error) {
+    // Node's fetch hides the useful part (e.g. ENOTFOUND) in `cause`
+    const cause =
+      error instanceof Error && error.cause instanceof Error
+        ? error.cause
+        : error;
+    const message =
+      error instanceof Error && error.name === "TimeoutError"
+        ? `No response within ${timeoutMs}ms`
+        : cause instanceof Error
+          ? cause.message
+          : String(cause);
+    return result("down", null, redirects, message);
+  }
+}
+
+// Checks `links` a few at a time, keeping their order in the report.
+export async function checkLinks(
+  links: ContentLink[],
+  options: CheckOptions = {},
+): Promise<LinkReport> {
+  const { concurrency = 4 } = options;
+  const statuses: LinkStatus[] = new Array(links.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < links.length) {
+      const index = next++;
+      statuses[index] = await checkLink(links[index], options);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, links.length) }, worker),
+  );
+
+  return { checkedAt: new Date().toISOString(), links: statuses };
+}
@@ -0,0 +1,14 @@
+import type { CSSProperties } from "react";
+
+// Inline colors for the rounded filter pills used across sections
+export function getPillStyle(active: boolean): CSSProperties {
+  return {
+    backgroundColor: active
+      ? "rgba(255, 255, 255, 0.12)"
+      : "rgba(255, 255, 255, 0.04)",
+    color: active ? "rgba(255, 255, 255, 0.9)" : "rgba(255, 255, 255, 0.4)",
+    border: active
+      ? "1px solid rgba(255, 255, 255, 0.2)"
+      : "1px solid rgba(255, 255, 255, 0.06)",
+  };
+}
@@ -0,0 +1,8 @@
+// State shared by every route in the server process. Next.js bundles routes
+// separately, so a plain top-level `new Map()` would give each route its own
+// copy; keeping it on `globalThis` gives them one.
+export function processState<T>(name: string, create: () => T): T {
+  const store = globalThis as unknown as Record<symbol, T | undefined>;
+  const key = Symbol.for(`activity:${name}`);
+  return (store[key] ??= create());
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import type { Project, ProjectImage } from "@/lib/projects";
+
+// Build-time checks for `content/projects/*.json`. Kept out of `lib/projects`
+// so zod stays out of the client bundle; the annotations keep the schemas in
+// lockstep with the plain types the components use.
+
+const projectImageSchema: z.ZodType<ProjectImage> = z.object({
+  src: z.string(),
+  alt: z.string(),
+  blurDataURL: z.string().startsWith("data:image/").optional(),
+});
+
+const projectSchema: z.ZodType<Project> = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/),
+  title: z.string(),
+  category: z.string(),
+  year: z.number().int(),
+  description: z.string(),
+  link: z.url(),
+  role: z.string().optional(),
+  techStack: z.array(z.string()).optional(),
+  cover: projectImageSchema.optional(),
+  video: z
+    .object({ src: z.string(), poster: z.string().optional() })
+    .optional(),
+  gallery: z.array(projectImageSchema).optional(),
+  repo: z.string().optional(),
+  archived: z.boolean().optional(),
+  sections: z
+    .array(z.object({ title: z.string(), body: z.string() }))
+    .optional(),
+});
+
+// Throws on the first malformed entry, failing the build instead of rendering
+// a broken case study.
+export function validateProjects(entries: readonly unknown[]): Project[] {
+  return entries.map((entry, index) => {
+    const result = projectSchema.safeParse(entry);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(
+        `Project #${index} is invalid at "${issue.path.join(".")}": ${issue.message}`,
+      );
+    }
+    return result.data;
+  });
+}
@@ -0,0 +1,96 @@
+import cagedBird from "@/content/projects/caged-bird.json";
+import cai from "@/content/projects/cai.json";
+import interactiveQuotes from "@/content/projects/interactive-quotes.json";
+import volvoMobileExperience from "@/content/projects/volvo-mobile-experience.json";
+import weatherApp from "@/content/projects/weather-app.json";
+import wordLadderWar from "@/content/projects/wordladderwar.json";
+
+// Paths are relative to `public/`, e.g. "/work/<slug>/cover.png".
+// `blurDataURL` is a tiny base64 image shown while the real one loads.
+export interface ProjectImage {
+  src: string;
+  alt: string;
+  blurDataURL?: string;
+}
+
+// Frontmatter of one `content/projects/<slug>.json` file, checked at build
+// time by `validateProjects` in `lib/project-schemas`.
+export interface Project {
+  slug: string; // lowercase letters, digits and dashes
+  title: string;
+  category: string;
+  year: number;
+  description: string;
+  link: string;
+  // Case study details are optional; the page leaves out whatever is missing
+  role?: string;
+  techStack?: string[];
+  cover?: ProjectImage;
+  // A short clip, played muted and looped in previews
+  video?: { src: string; poster?: string };
+  gallery?: ProjectImage[];
+  // "owner/name" of the backing repo. Without it, a repo is matched when its
+  // homepage URL is the project link.
+  repo?: string;
+  // The live link is gone for good; the Work list stops offering "Visit"
+  archived?: boolean;
+  sections?: { title: string; body: string }[];
+}
+
+// Listed in the order they appear on the home page. Add new files here.
+export const projects: Project[] = [
+  interactiveQuotes,
+  cai,
+  cagedBird,
+  wordLadderWar,
+  volvoMobileExperience,
+  weatherApp,
+];
+
+export function getProject(slug: string): Project | undefined {
+  return projects.find((project) => project.slug === slug);
+}
+
+// Cover first, then the gallery
+export function getProjectImages(project: Project): ProjectImage[] {
+  return [
+    ...(project.cover ? [project.cover] : []),
+    ...(project.gallery ?? []),
+  ];
+}
+
+export const PROJECT_SORTS = ["featured", "newest", "oldest"] as const;
+
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export interface ProjectFilter {
+  category: string | null; // null for every category
+  query: string;
+  sort: ProjectSort;
+}
+
+// Distinct categories in catalog order
+export function getProjectCategories(): string[] {
+  return [...new Set(projects.map((project) => project.category))];
+}
+
+// Matches `query` against title and description, case-insensitively. Ties in
+// year keep catalog order, since the sort is stable.
+export function filterProjects({
+  category,
+  query,
+  sort,
+}: ProjectFilter): Project[] {
+  const needle = query.trim().toLowerCase();
+  const matches = projects.filter(
+    (project) =>
+      (category === null || project.category === category) &&
+      (needle === "" ||
+        project.title.toLowerCase().includes(needle) ||
+        project.description.toLowerCase().includes(needle)),
+  );
+
+  if (sort === "newest") return matches.sort((a, b) => b.year - a.year);
+  if (sort === "oldest") return matches.sort((a, b) => a.year - b.year);
+  return matches;
+}
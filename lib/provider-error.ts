@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import type { ApiErrorCode, ApiErrorResponse } from "@/lib/activity-types";
+
+const STATUS_BY_CODE: Record<ApiErrorCode, number> = {
+  bad_request: 400,
+  not_configured: 500,
+  upstream_unavailable: 502,
+  rate_limited: 429,
+  bad_payload: 502,
+};
+
+export class ProviderError extends Error {
+  readonly code: ApiErrorCode;
+  readonly upstreamStatus: number | null;
+  readonly retryAfter: number | null;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    options: {
+      upstreamStatus?: number | null;
+      retryAfter?: number | null;
+    } = {},
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.code = code;
+    this.upstreamStatus = options.upstreamStatus ?? null;
+    this.retryAfter = options.retryAfter ?? null;
+  }
+}
+
+// Seconds until the upstream wants to hear from us again, read from
+// `Retry-After` or GitHub's `X-RateLimit-Reset` epoch.
+export function getRetryAfter(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter && !Number.isNaN(Number(retryAfter))) {
+    return Number(retryAfter);
+  }
+
+  const reset = headers.get("x-ratelimit-reset");
+  if (reset && !Number.isNaN(Number(reset))) {
+    return Math.max(0, Math.ceil(Number(reset) - Date.now() / 1000));
+  }
+
+  return null;
+}
+
+// Turns a non-2xx upstream response into the matching ProviderError.
+export function errorFromResponse(
+  provider: string,
+  response: Response,
+): ProviderError {
+  const rateLimited =
+    response.status === 429 ||
+    (response.status === 403 &&
+      response.headers.get("x-ratelimit-remaining") === "0");
+
+  if (rateLimited) {
+    return new ProviderError("rate_limited", `${provider} rate limit reached`, {
+      upstreamStatus: response.status,
+      retryAfter: getRetryAfter(response.headers) ?? 60,
+    });
+  }
+
+  return new ProviderError(
+    "upstream_unavailable",
+    `${provider} API responded with ${response.status}`,
+    {
+      upstreamStatus: response.status,
+      retryAfter: getRetryAfter(response.headers) ?? 60,
+    },
+  );
+}
+
+export function toProviderError(provider: string, error: unknown) {
+  if (error instanceof ProviderError) return error;
+
+  return new ProviderError(
+    "upstream_unavailable",
+    error instanceof Error ? error.message : `${provider} request failed`,
+    { retryAfter: 60 },
+  );
+}
+
+export function errorResponse(error: ProviderError) {
+  const body: ApiErrorResponse = {
+    error: {
+      code: error.code,
+      message: error.message,
+      upstreamStatus: error.upstreamStatus,
+      retryAfter: error.retryAfter,
+    },
+  };
+
+  return NextResponse.json(body, {
+    status: STATUS_BY_CODE[error.code],
+    headers:
+      error.retryAfter !== null
+        ? { "Retry-After": String(error.retryAfter) }
+        : undefined,
+  });
+}
@@ -0,0 +1,47 @@
+import type { ApiErrorCode } from "@/lib/activity-types";
+import { processState } from "@/lib/process-state";
+import { toProviderError } from "@/lib/provider-error";
+
+// What the provider clients last saw of each upstream, for `/api/health`.
+// Kept in memory, so it describes this server process since it started.
+
+interface HealthState {
+  lastSuccessAt: number | null; // epoch ms
+  lastError: { code: ApiErrorCode; message: string; at: number } | null;
+  latencyMs: number | null;
+}
+
+const states = processState(
+  "provider-health",
+  () => new Map<string, HealthState>(),
+);
+
+export function getHealthState(provider: string): HealthState {
+  let state = states.get(provider);
+  if (!state) {
+    state = { lastSuccessAt: null, lastError: null, latencyMs: null };
+    states.set(provider, state);
+  }
+  return state;
+}
+
+// Runs one upstream request, recording its latency and outcome.
+export async function trackRequest<T>(
+  provider: string,
+  request: () => Promise<T>,
+): Promise<T> {
+  const state = getHealthState(provider);
+  const started = Date.now();
+
+  try {
+    const result = await request();
+    state.lastSuccessAt = Date.now();
+    state.latencyMs = state.lastSuccessAt - started;
+    return result;
+  } catch (error) {
+    const { code, message } = toProviderError(provider, error);
+    state.lastError = { code, message, at: Date.now() };
+    state.latencyMs = state.lastError.at - started;
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import type { ProviderQuota } from "@/lib/activity-types";
+import { processState } from "@/lib/process-state";
+import { ProviderError } from "@/lib/provider-error";
+
+// Remaining upstream quota per provider, as last reported by the upstream.
+// Lives in memory for the server process, so while a provider says we're out
+// of calls, requests fail fast instead of spending what's left of the window.
+
+interface QuotaState {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null; // epoch ms
+  blockedUntil: number | null; // epoch ms, after a 429
+}
+
+const quotas = processState("rate-limit", () => new Map<string, QuotaState>());
+
+function stateFor(provider: string): QuotaState {
+  let state = quotas.get(provider);
+  if (!state) {
+    state = { limit: null, remaining: null, resetAt: null, blockedUntil: null };
+    quotas.set(provider, state);
+  }
+  return state;
+}
+
+const toNumber = (value: string | null) =>
+  value !== null && value !== "" && !Number.isNaN(Number(value))
+    ? Number(value)
+    : null;
+
+export function recordQuota(
+  provider: string,
+  quota: {
+    limit: number | null;
+    remaining: number | null;
+    resetAt: number | null;
+  },
+) {
+  const state = stateFor(provider);
+  if (quota.limit !== null) state.limit = quota.limit;
+  if (quota.remaining !== null) state.remaining = quota.remaining;
+  if (quota.resetAt !== null) state.resetAt = quota.resetAt;
+}
+
+// Reads `X-RateLimit-Limit`/`-Remaining`/`-Reset` (epoch seconds), when sent.
+export function recordQuotaHeaders(provider: string, headers: Headers) {
+  const reset = toNumber(headers.get("x-ratelimit-reset"));
+  recordQuota(provider, {
+    limit: toNumber(headers.get("x-ratelimit-limit")),
+    remaining: toNumber(headers.get("x-ratelimit-remaining")),
+    resetAt: reset !== null ? reset * 1000 : null,
+  });
+}
+
+export function recordRateLimited(provider: string, retryAfter: number | null) {
+  stateFor(provider).blockedUntil = Date.now() + (retryAfter ?? 60) * 1000;
+}
+
+// Seconds until `provider` may be called again, or 0 if it may be now.
+function secondsUntilAvailable(state: QuotaState): number {
+  const now = Date.now();
+  const until = Math.max(
+    state.blockedUntil ?? 0,
+    state.remaining === 0 ? (state.resetAt ?? 0) : 0,
+  );
+  return until > now ? Math.ceil((until - now) / 1000) : 0;
+}
+
+// Throws `rate_limited` without touching the network while the quota is spent.
+export function assertQuotaAvailable(provider: string) {
+  const retryAfter = secondsUntilAvailable(stateFor(provider));
+  if (retryAfter > 0) {
+    throw new ProviderError(
+      "rate_limited",
+      `${provider} rate limit reached, waiting for the quota to reset`,
+      { retryAfter },
+    );
+  }
+}
+
+export function getQuota(provider: string): ProviderQuota {
+  const state = stateFor(provider);
+  const retryAfter = secondsUntilAvailable(state);
+  return {
+    limit: state.limit,
+    remaining: state.remaining,
+    resetAt: state.resetAt ? new Date(state.resetAt).toISOString() : null,
+    exhausted: retryAfter > 0,
+    retryAfter: retryAfter > 0 ? retryAfter : null,
+  };
+}
@@ -0,0 +1,161 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { CacheMeta } from "@/lib/activity-types";
+import { processState } from "@/lib/process-state";
+
+// Last-good-response cache under the activity routes. Fresh entries are
+// served as-is; older ones are served immediately while a refresh runs in the
+// background; and when the upstream fails outright, whatever we last had is
+// served marked `stale` instead of an error.
+
+export interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number; // epoch ms
+}
+
+// Anything that can hold JSON-serialisable entries by key.
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+interface CacheOptions {
+  store?: CacheStore;
+  maxAge?: number; // ms an entry counts as fresh
+  staleWhileRevalidate?: number; // ms past maxAge it's served while refreshing
+}
+
+const MAX_AGE_MS = 60 * 60 * 1000;
+const STALE_WHILE_REVALIDATE_MS = 23 * 60 * 60 * 1000;
+
+export function createMemoryStore(): CacheStore {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    async get<T>(key: string) {
+      return (entries.get(key) as CacheEntry<T> | undefined) ?? null;
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.set(key, entry);
+    },
+  };
+}
+
+// One JSON file per key, so snapshots survive restarts and deploys that keep
+// the directory.
+export function createFileStore(dir: string): CacheStore {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+
+  return {
+    async get<T>(key: string) {
+      try {
+        return JSON.parse(
+          await readFile(fileFor(key), "utf8"),
+        ) as CacheEntry<T>;
+      } catch {
+        return null;
+      }
+    },
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const file = fileFor(key);
+      await mkdir(dir, { recursive: true });
+      // Write-then-rename so a crash never leaves half a snapshot behind
+      await writeFile(`${file}.tmp`, JSON.stringify(entry));
+      await rename(`${file}.tmp`, file);
+    },
+  };
+}
+
+// Set ACTIVITY_CACHE_DIR to persist entries on disk; otherwise they live in
+// memory for the lifetime of the server process.
+export function getCacheStore(): CacheStore {
+  return processState("cache-store", () => {
+    const cacheDir = process.env.ACTIVITY_CACHE_DIR;
+    return cacheDir
+      ? createFileStore(path.resolve(process.cwd(), cacheDir))
+      : createMemoryStore();
+  });
+}
+
+// Refreshes already running, so concurrent requests share one upstream call.
+const inFlight = processState(
+  "cache-in-flight",
+  () => new Map<string, Promise<unknown>>(),
+);
+
+async function refresh<T>(
+  store: CacheStore,
+  key: string,
+  load: () => Promise<T>,
+): Promise<CacheEntry<T>> {
+  let pending = inFlight.get(key) as Promise<CacheEntry<T>> | undefined;
+  if (!pending) {
+    pending = load()
+      .then(async (value) => {
+        const entry = { value, fetchedAt: Date.now() };
+        await store.set(key, entry);
+        return entry;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+// When the data last served for each key prefix ("github", "hackatime") was
+// fetched, for the cache age `/api/health` reports.
+const lastServed = processState(
+  "cache-last-served",
+  () => new Map<string, number>(),
+);
+
+export function getCacheAge(prefix: string): number | null {
+  const fetchedAt = lastServed.get(prefix);
+  return fetchedAt !== undefined
+    ? Math.round((Date.now() - fetchedAt) / 1000)
+    : null;
+}
+
+function withMeta<T>(
+  key: string,
+  entry: CacheEntry<T>,
+  stale: boolean,
+): T & CacheMeta {
+  lastServed.set(key.split(":")[0], entry.fetchedAt);
+  return {
+    ...entry.value,
+    stale,
+    fetchedAt: new Date(entry.fetchedAt).toISOString(),
+  };
+}
+
+export async function cached<T extends object>(
+  key: string,
+  load: () => Promise<T>,
+  {
+    store = getCacheStore(),
+    maxAge = MAX_AGE_MS,
+    staleWhileRevalidate = STALE_WHILE_REVALIDATE_MS,
+  }: CacheOptions = {},
+): Promise<T & CacheMeta> {
+  const entry = await store.get<T>(key);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+  if (entry && age <= maxAge) return withMeta(key, entry, false);
+
+  if (entry && age <= maxAge + staleWhileRevalidate) {
+    refresh(store, key, load).catch((error) =>
+      console.error(`Background refresh of "${key}" failed:`, error),
+    );
+    return withMeta(key, entry, true);
+  }
+
+  try {
+    return withMeta(key, await refresh(store, key, load), false);
+  } catch (error) {
+    if (!entry) throw error;
+    console.error(`Serving stale "${key}" after upstream error:`, error);
+    return withMeta(key, entry, true);
+  }
+}
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Recorded activity data the API routes read at runtime
+  outputFileTracingIncludes: {
+    "/api/**/*": ["./data/*.json"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,53 @@
+// Checks every external URL in the content (project links and contact
+// profiles) and reports status, redirects and response time. Exits non-zero
+// when any link is down.
+//
+//   pnpm links
+//   pnpm links --json
+//   pnpm links http://localhost:4000/ok http://localhost:4000/gone   # just these
+//
+// Links answering with a status that says nothing about the page (a 403, or
+// LinkedIn's 999 for automated requests) are reported as unknown, not down.
+
+import {
+  checkLinks,
+  collectContentLinks,
+  type LinkStatus,
+} from "@/lib/link-health";
+
+function describe(link: LinkStatus): string {
+  const status = link.status ?? "---";
+  const time = link.responseTimeMs === null ? "" : ` ${link.responseTimeMs}ms`;
+  const redirects = link.redirects.map((url) => `\n    -> ${url}`).join("");
+  const error = link.error ? `\n    ${link.error}` : "";
+  return `${link.state.toUpperCase().padEnd(7)} ${status}${time}  ${link.url} (${link.source})${redirects}${error}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const json = args.includes("--json");
+  const urls = args.filter((arg) => !arg.startsWith("--"));
+
+  const links =
+    urls.length > 0
+      ? urls.map((url) => ({ url, source: "argument" }))
+      : collectContentLinks();
+  const report = await checkLinks(links);
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    for (const link of report.links) console.log(describe(link));
+  }
+
+  const down = report.links.filter((link) => link.state === "down");
+  if (!json) {
+    console.log(`\n${report.links.length} checked, ${down.length} down`);
+  }
+  if (down.length > 0) process.exitCode = 1;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
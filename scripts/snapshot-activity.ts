@@ -0,0 +1,111 @@
+// Records what the activity routes currently return into a JSON file the
+// routes fall back to when credentials are missing (see lib/activity-snapshot).
+//
+//   GITHUB_TOKEN=... HACKATIME_USERNAME=... pnpm snapshot
+//   pnpm snapshot --out data/activity-demo.json   # with ACTIVITY_FIXTURES_DIR=fixtures
+//
+// Providers without credentials are skipped.
+
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import {
+  SNAPSHOT_FILE,
+  snapshotKey,
+  type ActivitySnapshot,
+} from "@/lib/activity-snapshot";
+import { getFetchAdapter } from "@/lib/fetch-adapter";
+import {
+  createGitHubClient,
+  DEFAULT_GITHUB_USERNAME,
+  getYearRange,
+} from "@/lib/github";
+import {
+  createHackatimeClient,
+  getDateRange,
+  HACKATIME_RANGES,
+} from "@/lib/hackatime";
+
+async function main() {
+  const outIndex = process.argv.indexOf("--out");
+  const out = path.resolve(
+    outIndex !== -1 ? process.argv[outIndex + 1] : SNAPSHOT_FILE,
+  );
+
+  const fetch = getFetchAdapter();
+  const responses: ActivitySnapshot["responses"] = {};
+  const record = (route: string, body: object) => {
+    responses[snapshotKey(new URL(route, "http://localhost"))] = body;
+    console.log(`Recorded ${route}`);
+  };
+
+  // The heatmap asks for coding time over the GitHub calendar's window
+  let calendarWindow: { start_date: string; end_date: string } | null = null;
+
+  const token = process.env.GITHUB_TOKEN;
+  if (token) {
+    const username = process.env.GITHUB_USERNAME || DEFAULT_GITHUB_USERNAME;
+    const github = createGitHubClient({ token, fetch });
+
+    const calendar = await github.getContributionCalendar(username);
+    record("/api/github", calendar);
+    for (const year of calendar.contributionYears) {
+      record(
+        `/api/github?year=${year}`,
+        await github.getContributionCalendar(username, getYearRange(year)),
+      );
+    }
+    record(
+      "/api/github?view=lifetime",
+      await github.getLifetimeSummary(username),
+    );
+    record("/api/github/repos", await github.getRepositories(username));
+
+    const days = calendar.weeks.flatMap((w) => w.contributionDays);
+    if (days.length > 0) {
+      calendarWindow = {
+        start_date: days[0].date,
+        end_date: days[days.length - 1].date,
+      };
+    }
+  } else {
+    console.warn("GITHUB_TOKEN not set, skipping GitHub");
+  }
+
+  const username = process.env.HACKATIME_USERNAME;
+  if (username) {
+    const timeZone = process.env.ACTIVITY_TIMEZONE || "UTC";
+    const hackatime = createHackatimeClient({
+      username,
+      apiKey: process.env.HACKATIME_API_KEY,
+      fetch,
+    });
+
+    for (const range of HACKATIME_RANGES) {
+      record(
+        `/api/hackatime?range=${range}`,
+        await hackatime.getStats(getDateRange(range, timeZone)),
+      );
+    }
+    if (calendarWindow) {
+      record(
+        `/api/hackatime/daily?start=${calendarWindow.start_date}&end=${calendarWindow.end_date}`,
+        await hackatime.getDailyDurations(calendarWindow, timeZone),
+      );
+    }
+  } else {
+    console.warn("HACKATIME_USERNAME not set, skipping Hackatime");
+  }
+
+  const snapshot: ActivitySnapshot = {
+    createdAt: new Date().toISOString(),
+    responses,
+  };
+  await mkdir(path.dirname(out), { recursive: true });
+  await writeFile(out, JSON.stringify(snapshot, null, 2) + "\n");
+  console.log(`Wrote ${Object.keys(responses).length} responses to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});